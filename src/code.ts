@@ -2,9 +2,13 @@
  * code.ts — Figma 플러그인 메인 스레드 (샌드박스)
  *
  * UI로부터 DomNodeData 트리를 받아 Figma API로 노드를 재귀 생성한다.
+ * 반대로 선택한 레이어를 HTML/CSS로 내보내 UI에 돌려주기도 한다.
  * DOM API 없음, Figma API만 사용 가능.
  */
-import type { DomNodeData, DomStyleData, UIToMainMessage, MainToUIMessage } from './types';
+import type {
+  CssVariable, DomGridData, DomNodeData, DomStyleData, DomTransformData, FontMapping, HtmlExportMode, ImageAsset,
+  ImportOptions, LayerNaming, UIToMainMessage, MainToUIMessage,
+} from './types';
 
 figma.showUI(__html__, { width: 400, height: 580, themeColors: true });
 
@@ -127,12 +131,95 @@ const FONT_MAP: Record<string, string> = {
   'apple system': 'Inter',
 };
 
-function mapFontFamily(cssFontFamily: string): string {
-  const families = cssFontFamily.split(',').map((f) => f.trim().replace(/['"]/g, '').toLowerCase());
-  for (const fam of families) {
-    if (FONT_MAP[fam]) return FONT_MAP[fam];
+// CSS 일반 패밀리 키워드 — 실제 폰트 목록과 대조하지 않고 FONT_MAP으로 바로 치환
+const GENERIC_FAMILIES = new Set([
+  'sans-serif', 'serif', 'monospace', 'system-ui', '-apple-system', 'blinkmacsystemfont', 'apple system',
+]);
+
+// 패밀리 이름 끝의 배포 형태 접미사 ('Pretendard Variable', 'Inter var' 등) — fuzzy 비교 시 제거
+const FAMILY_SUFFIX = /(variable|var|vf|webfont|web)$/;
+
+interface FontCatalogEntry {
+  family: string;
+  styles: string[];
+}
+
+// figma.listAvailableFontsAsync 결과 (소문자 패밀리 → 패밀리·스타일 목록), 플러그인 실행 중 한 번만 조회
+let fontCatalog: Map<string, FontCatalogEntry> | null = null;
+// 공백·하이픈 등을 제거한 fuzzy 키 → 패밀리
+let fontKeyIndex = new Map<string, string>();
+// 사용자 매핑 (clientStorage) — 소문자 CSS 패밀리 → Figma 패밀리
+let userFontMap: Record<string, string> = {};
+
+const FONT_MAPPINGS_KEY = 'fontMappings';
+
+function fontKey(name: string): string {
+  return name.toLowerCase().replace(/[\s\-_'"]/g, '');
+}
+
+async function loadFontCatalog(): Promise<void> {
+  if (fontCatalog) return;
+  const catalog = new Map<string, FontCatalogEntry>();
+  try {
+    for (const { fontName } of await figma.listAvailableFontsAsync()) {
+      const key = fontName.family.toLowerCase();
+      const entry = catalog.get(key) ?? { family: fontName.family, styles: [] };
+      entry.styles.push(fontName.style);
+      catalog.set(key, entry);
+    }
+  } catch {
+    // 목록 조회 실패 → FONT_MAP과 스타일 이름 추측만 사용
+  }
+  fontCatalog = catalog;
+  fontKeyIndex = new Map();
+  for (const entry of catalog.values()) fontKeyIndex.set(fontKey(entry.family), entry.family);
+}
+
+async function loadFontMappings(): Promise<FontMapping[]> {
+  const stored = await figma.clientStorage.getAsync(FONT_MAPPINGS_KEY);
+  return Array.isArray(stored) ? stored : [];
+}
+
+/** 실제 설치된 패밀리 중 이름이 같은 것 (대소문자·공백·하이픈·Variable 접미사 무시) */
+function findAvailableFamily(name: string): string | null {
+  const exact = fontCatalog?.get(name);
+  if (exact) return exact.family;
+  const key = fontKey(name);
+  return fontKeyIndex.get(key) ?? fontKeyIndex.get(key.replace(FAMILY_SUFFIX, '')) ?? null;
+}
+
+interface ResolvedFamily {
+  family: string;
+  requested: string;     // 스택에서 의도한 패밀리 (첫 번째 비일반 패밀리, 원래 표기)
+  substituted: boolean;  // 의도한 패밀리가 아닌 대체 패밀리로 결정됨
+}
+
+/**
+ * CSS font-family 스택 → Figma 패밀리.
+ * 스택 앞에서부터 사용자 매핑 → 설치된 폰트 → FONT_MAP 순으로 찾고, 없으면 다음 후보로.
+ * 사용자 매핑이나 의도한 패밀리 자체로 결정된 경우만 대체가 아닌 것으로 본다.
+ */
+function resolveFontFamily(cssFontFamily: string): ResolvedFamily {
+  const names = cssFontFamily.split(',').map((f) => f.trim().replace(/['"]/g, '')).filter(Boolean);
+  const intended = names.find((n) => !GENERIC_FAMILIES.has(n.toLowerCase())) ?? names[0] ?? 'Inter';
+  for (const name of names) {
+    const fam = name.toLowerCase();
+    const isIntended = name === intended;
+    if (userFontMap[fam]) return { family: userFontMap[fam], requested: intended, substituted: !isIntended };
+    if (!GENERIC_FAMILIES.has(fam)) {
+      const available = findAvailableFamily(fam);
+      if (available) return { family: available, requested: intended, substituted: !isIntended };
+    }
+    if (FONT_MAP[fam]) {
+      const family = FONT_MAP[fam];
+      return { family, requested: intended, substituted: fontKey(family) !== fontKey(intended) };
+    }
   }
-  return 'Inter';
+  return { family: 'Inter', requested: intended, substituted: fontKey(intended) !== 'inter' };
+}
+
+function mapFontFamily(cssFontFamily: string): string {
+  return resolveFontFamily(cssFontFamily).family;
 }
 
 // CSS font-weight → Figma 스타일 접미사
@@ -150,6 +237,50 @@ function weightToFigmaStyle(weight: string, italic: boolean): string {
   return italic ? style + ' Italic' : style;
 }
 
+// Figma 스타일 이름 → 굵기 (순서 중요: 'ExtraBold'가 'Bold'보다 먼저)
+const STYLE_WEIGHTS: [RegExp, number][] = [
+  [/thin|hairline/, 100],
+  [/extra\s*light|ultra\s*light/, 200],
+  [/light/, 300],
+  [/semi\s*bold|demi\s*bold/, 600],
+  [/extra\s*bold|ultra\s*bold/, 800],
+  [/black|heavy/, 900],
+  [/bold/, 700],
+  [/medium/, 500],
+];
+
+// 폭·광학 크기 변형 — 같은 굵기면 기본 폭 스타일 우선
+const STYLE_VARIANTS = /condensed|expanded|narrow|wide|compressed|display|caption/;
+
+function styleWeight(style: string): number {
+  const s = style.toLowerCase();
+  for (const [re, w] of STYLE_WEIGHTS) if (re.test(s)) return w;
+  return 400;
+}
+
+/**
+ * 패밀리의 실제 스타일 목록에서 CSS 굵기/italic에 가장 가까운 스타일 선택.
+ * CSS 폰트 매칭 규칙처럼 같은 거리면 450 미만 요청은 가는 쪽, 그 이상은 굵은 쪽을 고른다.
+ * (450 같은 가변 굵기도 실제 존재하는 스타일로 귀결)
+ */
+function matchFontStyle(styles: string[], weight: number, italic: boolean): string | null {
+  let best: string | null = null;
+  let bestScore = Infinity;
+  for (const style of styles) {
+    const lower = style.toLowerCase();
+    const w = styleWeight(style);
+    let score = Math.abs(w - weight);
+    if (/italic|oblique/.test(lower) !== italic) score += 10000;
+    if (weight < 450 ? w > weight : w < weight) score += 0.5;
+    if (STYLE_VARIANTS.test(lower)) score += 1000;
+    if (score < bestScore) {
+      best = style;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
 // Figma에 없는 폰트 스타일은 가까운 것으로 폴백
 // 한국어 폰트는 Noto Sans KR을 중간 폴백으로 시도
 const KOREAN_FAMILIES = new Set([
@@ -157,10 +288,19 @@ const KOREAN_FAMILIES = new Set([
   'Malgun Gothic', 'NanumGothic',
 ]);
 
-async function loadBestFont(family: string, style: string): Promise<FontName> {
-  const candidates: FontName[] = [
-    { family, style },
-  ];
+/** 설치된 스타일 목록이 있으면 그중 가장 가까운 것, 없으면 이름 추측 */
+function bestStyleFor(family: string, weight: number, italic: boolean): string | null {
+  const entry = fontCatalog?.get(family.toLowerCase());
+  return entry ? matchFontStyle(entry.styles, weight, italic) : null;
+}
+
+async function loadBestFont(family: string, weight: string, italic: boolean): Promise<FontName> {
+  const w = parseInt(weight) || 400;
+  const style = weightToFigmaStyle(weight, italic);
+  const candidates: FontName[] = [];
+  const matched = bestStyleFor(family, w, italic);
+  if (matched) candidates.push({ family, style: matched });
+  candidates.push({ family, style });
 
   // Figma 폰트 스타일 네이밍은 'SemiBold' / 'Semi Bold' 두 가지 관례가 혼재
   // → 두 변형 모두 시도하여 폰트 로딩 실패 방지
@@ -182,6 +322,8 @@ async function loadBestFont(family: string, style: string): Promise<FontName> {
 
   // 한국어 폰트 → Noto Sans KR 폴백 (Inter보다 한글 표시가 나음)
   if (family !== 'Noto Sans KR' && KOREAN_FAMILIES.has(family)) {
+    const notoStyle = bestStyleFor('Noto Sans KR', w, italic);
+    if (notoStyle) candidates.push({ family: 'Noto Sans KR', style: notoStyle });
     candidates.push(
       { family: 'Noto Sans KR', style },
       { family: 'Noto Sans KR', style: style.replace(' Italic', '') },
@@ -189,6 +331,8 @@ async function loadBestFont(family: string, style: string): Promise<FontName> {
     );
   }
 
+  const interStyle = bestStyleFor('Inter', w, italic);
+  if (interStyle) candidates.push({ family: 'Inter', style: interStyle });
   candidates.push({ family: 'Inter', style: 'Regular' });
 
   for (const fn of candidates) {
@@ -202,28 +346,307 @@ async function loadBestFont(family: string, style: string): Promise<FontName> {
   throw new Error('Cannot load any font');
 }
 
+// ─── 문자 체계별 폰트 폴백 ────────────────────────────────────
+
+type FallbackScript = 'hangul' | 'kana' | 'han' | 'emoji';
+
+// 문자 체계별 폴백 후보 (앞에서부터 설치된 첫 패밀리 사용). 한자는 문맥에 따라 골라 씀
+const JAPANESE_FAMILIES = ['Noto Sans JP', 'Hiragino Sans', 'Hiragino Kaku Gothic ProN', 'Yu Gothic', 'M PLUS 1p'];
+const CHINESE_FAMILIES = ['Noto Sans SC', 'Noto Sans TC', 'PingFang SC', 'Microsoft YaHei'];
+const EMOJI_FAMILIES = ['Noto Color Emoji', 'Apple Color Emoji', 'Segoe UI Emoji'];
+
+// 패밀리 이름으로 판단하는 글리프 지원 여부 (Figma API로는 실제 글리프 목록을 알 수 없음)
+const SCRIPT_COVERAGE: Record<FallbackScript, RegExp> = {
+  hangul: /\bKR\b|korean|cjk|pretendard|apple sd gothic|malgun|nanum|spoqa/i,
+  kana: /\bJP\b|japanese|cjk|hiragino|yu gothic|m plus|meiryo/i,
+  han: /\b(KR|JP|SC|TC|HK)\b|cjk|hiragino|yu gothic|pingfang|yahei|meiryo/i,
+  emoji: /emoji/i,
+};
+
+function inRange(cp: number, ranges: [number, number][]): boolean {
+  return ranges.some(([lo, hi]) => cp >= lo && cp <= hi);
+}
+
+const HANGUL_RANGES: [number, number][] = [[0x1100, 0x11ff], [0x3130, 0x318f], [0xa960, 0xa97f], [0xac00, 0xd7ff]];
+const KANA_RANGES: [number, number][] = [[0x3040, 0x30ff], [0x31f0, 0x31ff], [0xff66, 0xff9f]];
+const HAN_RANGES: [number, number][] = [
+  [0x2e80, 0x2fdf], [0x3005, 0x3007], [0x3400, 0x4dbf], [0x4e00, 0x9fff], [0xf900, 0xfaff], [0x20000, 0x2fa1f],
+];
+// 텍스트 표현이 기본인 기호 영역 — 뒤에 VS16(U+FE0F)이 붙을 때만 이모지
+const SYMBOL_RANGES: [number, number][] = [[0x2300, 0x23ff], [0x2600, 0x27bf], [0x2b00, 0x2bff]];
+
+/**
+ * 한 글자의 문자 체계. 폴백이 필요 없는 라틴·숫자·공백 등은 null.
+ * (esbuild target이 es2017이라 \p{Script=...} 정규식 대신 코드 포인트 범위로 판정)
+ */
+function charScript(cp: number, next: number | undefined, prev: FallbackScript | null): FallbackScript | null {
+  if (inRange(cp, HANGUL_RANGES)) return 'hangul';
+  if (inRange(cp, KANA_RANGES)) return 'kana';
+  if (inRange(cp, HAN_RANGES)) return 'han';
+  if (cp >= 0x1f000 && cp <= 0x1faff) return 'emoji';
+  if (inRange(cp, SYMBOL_RANGES) && next === 0xfe0f) return 'emoji';
+  // ZWJ·VS16은 이모지 시퀀스의 일부
+  if ((cp === 0x200d || cp === 0xfe0f) && prev === 'emoji') return 'emoji';
+  return null;
+}
+
+/** 텍스트를 폴백이 필요한 문자 체계 구간으로 분할 (UTF-16 인덱스, setRange* 기준) */
+function scriptRuns(text: string): { start: number; end: number; script: FallbackScript }[] {
+  const runs: { start: number; end: number; script: FallbackScript }[] = [];
+  let prev: FallbackScript | null = null;
+  for (let i = 0; i < text.length;) {
+    const cp = text.codePointAt(i)!;
+    const size = cp > 0xffff ? 2 : 1;
+    const script = charScript(cp, text.codePointAt(i + size), prev);
+    const last = runs[runs.length - 1];
+    if (script && last && last.script === script && last.end === i) last.end = i + size;
+    else if (script) runs.push({ start: i, end: i + size, script });
+    prev = script;
+    i += size;
+  }
+  return runs;
+}
+
+function fallbackFamilies(script: FallbackScript, text: string): string[] {
+  switch (script) {
+    case 'hangul':
+      return Array.from(KOREAN_FAMILIES);
+    case 'kana':
+      return JAPANESE_FAMILIES;
+    case 'han': {
+      // 한자는 같은 문단의 가나/한글로 일본어·한국어 문맥을 판단 (없으면 중국어)
+      const runs = scriptRuns(text);
+      if (runs.some((r) => r.script === 'kana')) return [...JAPANESE_FAMILIES, ...CHINESE_FAMILIES];
+      if (runs.some((r) => r.script === 'hangul')) return ['Noto Sans KR', ...CHINESE_FAMILIES];
+      return [...CHINESE_FAMILIES, ...JAPANESE_FAMILIES];
+    }
+    case 'emoji':
+      return EMOJI_FAMILIES;
+  }
+}
+
+/** 설치 여부를 알 수 있으면 설치된 패밀리만, 폰트 목록을 못 읽었으면 로드를 직접 시도 */
+async function tryLoadFamily(family: string, weight: number, italic: boolean): Promise<FontName | null> {
+  const entry = fontCatalog?.get(family.toLowerCase());
+  if (fontCatalog && fontCatalog.size > 0 && !entry) return null;
+  const styles = [bestStyleFor(family, weight, italic), weightToFigmaStyle(String(weight), italic), 'Regular'];
+  for (const style of styles) {
+    if (!style) continue;
+    const fn = { family: entry?.family ?? family, style };
+    try {
+      await figma.loadFontAsync(fn);
+      return fn;
+    } catch {
+      // 다음 스타일 시도
+    }
+  }
+  return null;
+}
+
+const SCRIPT_LABEL: Record<FallbackScript, string> = {
+  hangul: '한글',
+  kana: '일본어',
+  han: '한자',
+  emoji: '이모지',
+};
+
+/**
+ * 한 텍스트 노드 안의 한글·가나·한자·이모지 구간마다, 현재 폰트가 지원하지 않으면
+ * 해당 문자 체계를 지원하는 첫 설치 패밀리로 setRangeFontName (굵기·italic은 유지).
+ * 라틴 본문 폰트 + 한글 폴백처럼 브라우저의 글자 단위 폰트 폴백을 재현한다.
+ * 폴백 폰트로 바꾼 구간을 돌려준다 (폰트 대체 리포트에서 제외).
+ */
+async function applyScriptFallbacks(t: TextNode): Promise<{ start: number; end: number }[]> {
+  const text = t.characters;
+  const replaced: { start: number; end: number }[] = [];
+  for (const run of scriptRuns(text)) {
+    const current = t.getRangeFontName(run.start, run.start + 1) as FontName;
+    if (SCRIPT_COVERAGE[run.script].test(current.family)) continue;
+    const weight = styleWeight(current.style);
+    const italic = /italic|oblique/i.test(current.style);
+    let font: FontName | null = null;
+    for (const family of fallbackFamilies(run.script, text)) {
+      font = await tryLoadFamily(family, weight, italic);
+      if (font) break;
+    }
+    if (font) {
+      t.setRangeFontName(run.start, run.end, font);
+      replaced.push(run);
+    } else {
+      warn(`폰트: ${SCRIPT_LABEL[run.script]}를 지원하는 폰트가 없어 일부 글자가 표시되지 않을 수 있음`);
+    }
+  }
+  return replaced;
+}
+
+// ─── 폰트 대체 리포트 ─────────────────────────────────────────
+
+interface FontSubstitutionEntry {
+  requested: string;
+  loaded: string;
+  nodeIds: Set<string>;
+}
+
+// "요청 → 실제 로드" 조합별 영향받은 텍스트 노드 (import마다 초기화)
+let fontSubstitutions = new Map<string, FontSubstitutionEntry>();
+
+function formatCssFont(family: string, weight: number, italic: boolean): string {
+  return `${family} · ${weight}${italic ? ' Italic' : ''}`;
+}
+
+/** 텍스트 범위에 CSS가 요청한 폰트 */
+interface FontRequest {
+  start: number;
+  end: number;
+  family: string;   // CSS font-family 원문
+  weight: string;
+  italic: boolean;
+}
+
+/**
+ * 문자 체계 폴백까지 끝난 텍스트 노드에서 실제 렌더 폰트를 범위별 CSS 요청과 비교해 기록.
+ * 뒤의 요청이 앞 요청을 덮어쓰고(기본 스타일 → 세그먼트), 폴백으로 바꾼 구간은 브라우저도
+ * 글자 단위로 폴백하므로 대체로 보지 않는다.
+ */
+function noteFontUses(t: TextNode, requests: FontRequest[], fallbacks: { start: number; end: number }[]): void {
+  const requestAt = new Array<number>(t.characters.length).fill(-1);
+  requests.forEach((r, i) => requestAt.fill(i, r.start, r.end));
+  for (const r of fallbacks) requestAt.fill(-1, r.start, r.end);
+  for (const seg of t.getStyledTextSegments(['fontName'])) {
+    const used = new Set(requestAt.slice(seg.start, seg.end));
+    for (const i of used) {
+      if (i < 0) continue;
+      const r = requests[i];
+      noteFontUse(t, r.family, r.weight, r.italic, seg.fontName);
+    }
+  }
+}
+
+/**
+ * 텍스트에 실제 적용된 폰트를 CSS 요청과 비교해 대체된 경우 기록.
+ * 굵기는 100 이상 차이날 때만 대체로 본다 (450 → Medium 같은 가장 가까운 스타일은 정상).
+ */
+function noteFontUse(node: TextNode, cssFontFamily: string, weight: string, italic: boolean, loaded: FontName): void {
+  const { family, requested, substituted } = resolveFontFamily(cssFontFamily);
+  const w = parseInt(weight) || 400;
+  const styleMismatch = Math.abs(styleWeight(loaded.style) - w) >= 100 ||
+    /italic|oblique/i.test(loaded.style) !== italic;
+  if (!substituted && loaded.family === family && !styleMismatch) return;
+
+  const requestedLabel = formatCssFont(requested, w, italic);
+  const loadedLabel = `${loaded.family} · ${loaded.style}`;
+  const key = `${requestedLabel}\n${loadedLabel}`;
+  const entry = fontSubstitutions.get(key) ?? { requested: requestedLabel, loaded: loadedLabel, nodeIds: new Set() };
+  entry.nodeIds.add(node.id);
+  fontSubstitutions.set(key, entry);
+}
+
+/**
+ * 두 하위 트리를 나란히 걸으며 텍스트 노드 id 짝을 모은다 (to가 없거나 구조가 다르면 null).
+ * 빌드한 노드를 인스턴스·병합 결과 등으로 바꾸기 전에 호출한다.
+ */
+function pairTextIds(from: SceneNode, to: SceneNode | null, out = new Map<string, string | null>()): Map<string, string | null> {
+  if (from.type === 'TEXT') out.set(from.id, to?.type === 'TEXT' ? to.id : null);
+  if ('children' in from) {
+    const toChildren = to && 'children' in to ? to.children : [];
+    from.children.forEach((child, i) => pairTextIds(child, toChildren[i] ?? null, out));
+  }
+  return out;
+}
+
+/** 교체된 텍스트 노드의 리포트 id를 남은 노드 id로 바꾼다 (null이면 리포트에서 뺀다) */
+function remapFontSubstitutions(ids: Map<string, string | null>): void {
+  for (const entry of fontSubstitutions.values()) {
+    for (const [from, to] of ids) {
+      if (!entry.nodeIds.delete(from)) continue;
+      if (to) entry.nodeIds.add(to);
+    }
+  }
+}
+
 // ─── Box Shadow 파싱 ───────────────────────────────────────────
 
-function parseBoxShadow(shadow: string): DropShadowEffect | null {
-  if (!shadow || shadow === 'none') return null;
-  // "0px 4px 16px 0px rgba(0,0,0,0.1)" 또는 "0px 2px 8px rgba(0,0,0,0.2)" 형태
-  const m = shadow.match(
-    /(-?[\d.]+)px\s+(-?[\d.]+)px\s+([\d.]+)px(?:\s+(-?[\d.]+)px)?\s+(rgba?\([^)]+\)|#[\da-fA-F]{3,8})/
-  );
-  if (!m) return null;
-  const color = parseColor(m[5]);
+interface ParsedShadow {
+  inset: boolean;
+  x: number;
+  y: number;
+  blur: number;
+  spread: number;
+  color: ParsedColor;
+}
+
+/**
+ * 그림자 하나("rgba(0,0,0,0.1) 0px 4px 6px -1px inset" 등) 파싱.
+ * computed 값은 색상이 앞에 오지만 작성 순서(색상 뒤, inset 앞/뒤)도 모두 허용.
+ * 색상이 없으면 currentColor → fallbackColor 사용.
+ */
+function parseShadow(str: string, fallbackColor = 'rgb(0, 0, 0)'): ParsedShadow | null {
+  const tokens = str.trim().match(/[a-z-]+\([^)]*\)|#[\da-f]+|[^\s]+/gi);
+  if (!tokens) return null;
+  let inset = false;
+  let colorStr = '';
+  const lengths: number[] = [];
+  for (const t of tokens) {
+    if (t.toLowerCase() === 'inset') inset = true;
+    else if (/^-?[\d.]+(px)?$/.test(t)) lengths.push(parseFloat(t));
+    else colorStr = t;
+  }
+  if (lengths.length < 2) return null;
+  const color = colorStr.toLowerCase() === 'transparent'
+    ? { rgb: { r: 0, g: 0, b: 0 }, a: 0 }
+    : parseColor(colorStr || fallbackColor) ?? parseHexColor(colorStr);
   if (!color) return null;
   return {
-    type: 'DROP_SHADOW',
-    color: { ...color.rgb, a: color.a },
-    offset: { x: parseFloat(m[1]), y: parseFloat(m[2]) },
-    radius: parseFloat(m[3]),
-    spread: parseFloat(m[4] || '0'),
+    inset,
+    x: lengths[0],
+    y: lengths[1],
+    blur: Math.max(lengths[2] ?? 0, 0),
+    spread: lengths[3] ?? 0,
+    color,
+  };
+}
+
+/**
+ * 쉼표로 구분된 그림자 목록 파싱.
+ * 투명하거나 크기가 0인 그림자(Tailwind ring-offset 기본값 등)는 보이지 않으므로 제외.
+ */
+function parseShadowList(css: string, fallbackColor?: string): ParsedShadow[] {
+  if (!css || css === 'none') return [];
+  return splitTopLevelCommas(css)
+    .map((part) => parseShadow(part, fallbackColor))
+    .filter((sh): sh is ParsedShadow =>
+      sh !== null && sh.color.a >= 0.01 &&
+      (sh.x !== 0 || sh.y !== 0 || sh.blur !== 0 || sh.spread !== 0));
+}
+
+function shadowToEffect(sh: ParsedShadow): DropShadowEffect | InnerShadowEffect {
+  return {
+    type: sh.inset ? 'INNER_SHADOW' : 'DROP_SHADOW',
+    color: { ...sh.color.rgb, a: sh.color.a },
+    offset: { x: sh.x, y: sh.y },
+    radius: sh.blur,
+    spread: sh.spread,
     visible: true,
     blendMode: 'NORMAL',
   };
 }
 
+/**
+ * box-shadow → Figma 효과 목록 (DROP_SHADOW / INNER_SHADOW).
+ * Tailwind ring(0 0 0 3px 색상) 같은 다중 그림자도 모두 변환.
+ * CSS는 첫 그림자가 맨 위, Figma 효과 목록은 뒤쪽이 위 → 역순.
+ */
+function parseBoxShadow(shadow: string): Effect[] {
+  return parseShadowList(shadow).map(shadowToEffect).reverse();
+}
+
+/** text-shadow → 텍스트 노드의 DROP_SHADOW 목록 (spread·inset 없음, 색상 생략 시 글자색) */
+function parseTextShadow(shadow: string, color: string): Effect[] {
+  return parseShadowList(shadow, color)
+    .map((sh) => shadowToEffect({ ...sh, inset: false, spread: 0 }))
+    .reverse();
+}
+
 // ─── 그라디언트 파싱 ───────────────────────────────────────────
 
 /** 최상위 괄호 레벨에서 쉼표로 분리 (중첩 괄호 안의 쉼표는 무시) */
@@ -243,88 +666,344 @@ function splitTopLevelCommas(s: string): string[] {
   return parts;
 }
 
+type Vec = { x: number; y: number };
+
+/** 각도 토큰(deg / turn / rad / grad) → deg */
+function parseAngle(token: string): number | null {
+  const m = token.trim().match(/^(-?[\d.]+)(deg|turn|rad|grad)$/i);
+  if (!m) return null;
+  const v = parseFloat(m[1]);
+  switch (m[2].toLowerCase()) {
+    case 'turn': return v * 360;
+    case 'rad': return (v * 180) / Math.PI;
+    case 'grad': return v * 0.9;
+    default: return v;
+  }
+}
+
+/**
+ * 픽셀 좌표로 표현한 그라디언트 핸들 → Figma gradientTransform.
+ * gradientTransform은 레이어 정규 좌표(0~1) → 그라디언트 공간 변환이며, 그라디언트 공간에서
+ *   linear          : (0, 0.5) → (1, 0.5)
+ *   radial/angular  : 중심 (0.5, 0.5), 반지름 0.5
+ * 이다. 따라서 "그라디언트 공간 → 레이어" 핸들 행렬(origin + gx·xAxis + gy·yAxis)을
+ * 정규화한 뒤 역행렬을 구한다.
+ */
+function gradientTransformFromHandles(origin: Vec, xAxis: Vec, yAxis: Vec, w: number, h: number): Transform {
+  const a = xAxis.x / w, c = xAxis.y / h;
+  const b = yAxis.x / w, d = yAxis.y / h;
+  const tx = origin.x / w, ty = origin.y / h;
+  const det = a * d - b * c || 1e-6;
+  return [
+    [d / det, -b / det, (b * ty - d * tx) / det],
+    [-c / det, a / det, (c * tx - a * ty) / det],
+  ];
+}
+
+/** 스톱 배열에서 위치 t의 색상 (선형 보간, 범위 밖은 끝 색상) */
+function colorAtStop(stops: ColorStop[], t: number): RGBA {
+  if (t <= stops[0].position) return stops[0].color;
+  for (let i = 1; i < stops.length; i++) {
+    const a = stops[i - 1], b = stops[i];
+    if (t <= b.position) {
+      const k = b.position === a.position ? 1 : (t - a.position) / (b.position - a.position);
+      return {
+        r: a.color.r + (b.color.r - a.color.r) * k,
+        g: a.color.g + (b.color.g - a.color.g) * k,
+        b: a.color.b + (b.color.b - a.color.b) * k,
+        a: a.color.a + (b.color.a - a.color.a) * k,
+      };
+    }
+  }
+  return stops[stops.length - 1].color;
+}
+
+/**
+ * CSS 컬러 스톱 목록 → 위치가 채워진 ColorStop[] (아직 0~1로 자르지 않음)
+ * - "색상", "색상 위치", "색상 위치1 위치2"(이중 위치) 지원, 보간 힌트("30%" 단독)는 무시
+ * - 위치가 없는 스톱은 CSS 규칙대로 앞뒤 지정 스톱 사이에 균등 배치
+ * @param toFraction 위치 토큰(%, px, deg 등) → 그라디언트 길이 대비 비율
+ */
+function parseColorStops(parts: string[], toFraction: (token: string) => number | null): ColorStop[] {
+  const raw: { color: RGBA; pos: number | null }[] = [];
+  for (const part of parts) {
+    const m = part.trim().match(/^([a-z-]+\([^)]*\)|#[\da-f]+|[a-z]+)\s*(.*)$/i);
+    if (!m) continue;  // 보간 힌트 또는 인식 불가
+    let color: RGBA;
+    if (m[1].toLowerCase() === 'transparent') {
+      color = { r: 0, g: 0, b: 0, a: 0 };
+    } else {
+      const parsed = parseColor(m[1]) ?? parseHexColor(m[1]);
+      if (!parsed) continue;
+      color = { ...parsed.rgb, a: parsed.a };
+    }
+    const positions = m[2].trim() ? m[2].trim().split(/\s+/).map(toFraction) : [null];
+    for (const pos of positions) raw.push({ color, pos });
+  }
+  if (raw.length === 0) return [];
+
+  // 첫/끝 기본값, 역행 위치는 직전 최대값으로 끌어올림
+  if (raw[0].pos === null) raw[0].pos = 0;
+  if (raw[raw.length - 1].pos === null) raw[raw.length - 1].pos = 1;
+  let maxSoFar = raw[0].pos!;
+  for (const r of raw) {
+    if (r.pos !== null) {
+      r.pos = Math.max(r.pos, maxSoFar);
+      maxSoFar = r.pos;
+    }
+  }
+  // 위치 없는 구간 균등 분배
+  for (let i = 1; i < raw.length; i++) {
+    if (raw[i].pos !== null) continue;
+    let j = i;
+    while (raw[j].pos === null) j++;
+    const from = raw[i - 1].pos!, to = raw[j].pos!;
+    for (let k = i; k < j; k++) raw[k].pos = from + ((to - from) * (k - i + 1)) / (j - i + 1);
+  }
+  return raw.map((r) => ({ position: r.pos!, color: r.color }));
+}
+
+/**
+ * repeating-* 는 스톱 구간을 0~1 전체에 반복 전개하고,
+ * 0~1 밖의 스톱은 경계 색상을 보간해 잘라낸다 (Figma 스톱은 0~1 범위만 허용).
+ */
+function finalizeStops(stops: ColorStop[], repeating: boolean): ColorStop[] {
+  let expanded = stops;
+  const first = stops[0].position;
+  const period = stops[stops.length - 1].position - first;
+  if (repeating && period > 0.001) {
+    expanded = [];
+    const kStart = Math.floor((0 - first) / period) - 1;
+    const kEnd = Math.ceil((1 - first) / period) + 1;
+    for (let k = Math.max(kStart, -200); k <= Math.min(kEnd, 200); k++) {
+      for (const st of stops) expanded.push({ position: st.position + k * period, color: st.color });
+    }
+  }
+
+  const inRange = expanded.filter((st) => st.position >= 0 && st.position <= 1);
+  if (expanded[0].position < 0 && (inRange.length === 0 || inRange[0].position > 0)) {
+    inRange.unshift({ position: 0, color: colorAtStop(expanded, 0) });
+  }
+  if (expanded[expanded.length - 1].position > 1 &&
+    (inRange.length === 0 || inRange[inRange.length - 1].position < 1)) {
+    inRange.push({ position: 1, color: colorAtStop(expanded, 1) });
+  }
+  return inRange;
+}
+
+/** "at" 뒤의 위치 토큰(키워드 / % / px) → 박스 내 픽셀 좌표 (기본: 가운데) */
+function parseGradientPosition(tokens: string[], w: number, h: number): Vec {
+  let x: number | null = null;
+  let y: number | null = null;
+  const rest: string[] = [];
+  for (const t of tokens) {
+    if (t === 'left') x = 0;
+    else if (t === 'right') x = w;
+    else if (t === 'top') y = 0;
+    else if (t === 'bottom') y = h;
+    else rest.push(t);
+  }
+  const resolve = (t: string, box: number) =>
+    t === 'center' ? box / 2 : t.endsWith('%') ? (box * parseFloat(t)) / 100 : parseFloat(t);
+  for (const t of rest) {
+    if (x === null) x = resolve(t, w);
+    else if (y === null) y = resolve(t, h);
+  }
+  return { x: x === null || isNaN(x) ? w / 2 : x, y: y === null || isNaN(y) ? h / 2 : y };
+}
+
+/** 첫 인자가 색상 스톱이 아니라 설정(각도, 모양, 위치 등)인지 */
+function isGradientConfig(part: string): boolean {
+  return parseColorStops([part], () => 0).length === 0;
+}
+
+/** 길이 토큰(% / px) → 기준 길이 대비 비율 */
+function lengthFraction(token: string, length: number): number | null {
+  const v = parseFloat(token);
+  if (isNaN(v)) return null;
+  if (token.endsWith('%')) return v / 100;
+  return length > 0 ? v / length : 0;
+}
+
 /**
- * CSS linear-gradient() → Figma GradientPaint
+ * CSS linear-gradient() / repeating-linear-gradient() → Figma GradientPaint
  * 예: "linear-gradient(49.89deg, #ea27c2 0%, #e100a3 100%)"
+ * 그라디언트 선 길이는 CSS 규칙대로 |w·sinθ| + |h·cosθ| (박스 중심 통과)
  */
-function parseLinearGradient(css: string): GradientPaint | null {
-  const m = css.match(/^linear-gradient\(([\s\S]+)\)$/i);
+function parseLinearGradient(css: string, w = 1, h = 1): GradientPaint | null {
+  const m = css.match(/^(repeating-)?linear-gradient\(([\s\S]+)\)$/i);
   if (!m) return null;
 
-  const parts = splitTopLevelCommas(m[1]);
+  const parts = splitTopLevelCommas(m[2]);
   if (parts.length < 2) return null;
 
   // 각도 파싱 (deg / "to top" 등)
   let angleDeg = 180; // 기본: top → bottom
   let stopStart = 0;
-  const angleStr = parts[0].trim();
-  if (/deg$/i.test(angleStr)) {
-    angleDeg = parseFloat(angleStr);
+  const angleStr = parts[0].trim().toLowerCase();
+  const angle = parseAngle(angleStr);
+  if (angle !== null) {
+    angleDeg = angle;
     stopStart = 1;
-  } else if (/^to\s/i.test(angleStr)) {
-    const dir = angleStr.toLowerCase();
+  } else if (/^to\s/.test(angleStr)) {
+    // 모서리 방향은 0%/100%가 모서리에 닿도록 박스 비율에 따라 각도가 달라짐
+    const corner = (Math.atan2(h, w) * 180) / Math.PI;
+    const dir = angleStr.replace(/\s+/g, ' ');
     if (dir === 'to top') angleDeg = 0;
     else if (dir === 'to right') angleDeg = 90;
     else if (dir === 'to bottom') angleDeg = 180;
     else if (dir === 'to left') angleDeg = 270;
-    else if (dir === 'to top right') angleDeg = 45;
-    else if (dir === 'to bottom right') angleDeg = 135;
-    else if (dir === 'to bottom left') angleDeg = 225;
-    else if (dir === 'to top left') angleDeg = 315;
+    else if (dir === 'to top right' || dir === 'to right top') angleDeg = corner;
+    else if (dir === 'to bottom right' || dir === 'to right bottom') angleDeg = 180 - corner;
+    else if (dir === 'to bottom left' || dir === 'to left bottom') angleDeg = 180 + corner;
+    else if (dir === 'to top left' || dir === 'to left top') angleDeg = 360 - corner;
     stopStart = 1;
   }
 
-  // CSS 각도: 0deg = top(bottom→top), 90deg = right(left→right), 180deg = bottom
+  // CSS 각도: 0deg = 위쪽(아래→위), 90deg = 오른쪽(왼→오), 180deg = 아래쪽
   const rad = (angleDeg * Math.PI) / 180;
-  const cosA = Math.cos(rad);
-  const sinA = Math.sin(rad);
-
-  // 시작점(0% stop): (0.5 - 0.5*sinθ, 0.5 + 0.5*cosθ)
-  // 끝점(100% stop): (0.5 + 0.5*sinθ, 0.5 - 0.5*cosθ)
-  // Figma gradientTransform: [[a, b, tx], [c, d, ty]]
-  //   transform([0,0]) = start, transform([1,0]) = end
-  //   a = sinθ, c = -cosθ, tx = start.x, ty = start.y
-  const gradientTransform: Transform = [
-    [sinA,  cosA,  0.5 * (1 - sinA)],
-    [-cosA, sinA,  0.5 * (1 + cosA)],
-  ];
+  const dir = { x: Math.sin(rad), y: -Math.cos(rad) };
+  const length = Math.abs(w * dir.x) + Math.abs(h * dir.y);
+  const start = { x: w / 2 - (dir.x * length) / 2, y: h / 2 - (dir.y * length) / 2 };
+  const xAxis = { x: dir.x * length, y: dir.y * length };
+  const yAxis = { x: -xAxis.y, y: xAxis.x };
+  const gradientTransform = gradientTransformFromHandles(
+    { x: start.x - yAxis.x / 2, y: start.y - yAxis.y / 2 }, xAxis, yAxis, w, h);
 
-  // 컬러 스톱 파싱
-  const stopParts = parts.slice(stopStart);
-  const gradientStops: ColorStop[] = [];
-
-  for (let i = 0; i < stopParts.length; i++) {
-    const part = stopParts[i].trim();
-    // 색상과 위치 분리: "rgba(0,0,0,0.5) 30%" or "#fff 0%"
-    const posMatch = part.match(/(.+?)\s+([\d.]+)%\s*$/);
-    let colorStr: string;
-    let position: number;
-    if (posMatch) {
-      colorStr = posMatch[1].trim();
-      position = parseFloat(posMatch[2]) / 100;
-    } else {
-      colorStr = part;
-      position = i / Math.max(stopParts.length - 1, 1);
-    }
+  const stops = parseColorStops(parts.slice(stopStart), (t) => lengthFraction(t, length));
+  if (stops.length < 2) return null;
 
-    const parsed = parseColor(colorStr) ?? parseHexColor(colorStr);
-    if (!parsed) continue;
-    gradientStops.push({
-      position,
-      color: { ...parsed.rgb, a: parsed.a },
-    });
+  return {
+    type: 'GRADIENT_LINEAR',
+    gradientTransform,
+    gradientStops: finalizeStops(stops, !!m[1]),
+    opacity: 1,
+  };
+}
+
+/**
+ * CSS radial-gradient() / repeating-radial-gradient() → GRADIENT_RADIAL
+ * 설정: [circle | ellipse] [closest-side | closest-corner | farthest-side | farthest-corner | 길이] [at 위치]
+ */
+function parseRadialGradient(css: string, w = 1, h = 1): GradientPaint | null {
+  const m = css.match(/^(repeating-)?radial-gradient\(([\s\S]+)\)$/i);
+  if (!m) return null;
+
+  const parts = splitTopLevelCommas(m[2]);
+  let stopStart = 0;
+  let shapeTokens: string[] = [];
+  let center: Vec = { x: w / 2, y: h / 2 };
+  if (parts.length > 0 && isGradientConfig(parts[0])) {
+    const config = parts[0].trim().toLowerCase();
+    const [shapePart, posPart] = config.split(/\s*\bat\b\s*/);
+    shapeTokens = shapePart ? shapePart.split(/\s+/).filter(Boolean) : [];
+    if (posPart !== undefined) center = parseGradientPosition(posPart.split(/\s+/).filter(Boolean), w, h);
+    stopStart = 1;
+  }
+  if (parts.length - stopStart < 2) return null;
+
+  const lengths = shapeTokens.filter((t) => /^-?[\d.]/.test(t));
+  const isCircle = shapeTokens.includes('circle') ||
+    (lengths.length === 1 && !shapeTokens.includes('ellipse'));
+  const extent = shapeTokens.find((t) => /^(closest|farthest)-(side|corner)$/.test(t)) ?? 'farthest-corner';
+
+  // 중심에서 각 변까지 거리
+  const dxMin = Math.min(center.x, w - center.x), dxMax = Math.max(center.x, w - center.x);
+  const dyMin = Math.min(center.y, h - center.y), dyMax = Math.max(center.y, h - center.y);
+  let rx: number;
+  let ry: number;
+  if (lengths.length > 0) {
+    rx = lengths[0].endsWith('%') ? (w * parseFloat(lengths[0])) / 100 : parseFloat(lengths[0]);
+    ry = lengths.length > 1
+      ? (lengths[1].endsWith('%') ? (h * parseFloat(lengths[1])) / 100 : parseFloat(lengths[1]))
+      : rx;
+  } else if (isCircle) {
+    const r = extent === 'closest-side' ? Math.min(dxMin, dyMin)
+      : extent === 'farthest-side' ? Math.max(dxMax, dyMax)
+      : extent === 'closest-corner' ? Math.hypot(dxMin, dyMin)
+      : Math.hypot(dxMax, dyMax);
+    rx = ry = r;
+  } else {
+    // 타원: side는 각 축 거리, corner는 같은 비율로 모서리를 지나도록 √2배
+    const side = extent.startsWith('closest') ? [dxMin, dyMin] : [dxMax, dyMax];
+    const k = extent.endsWith('corner') ? Math.SQRT2 : 1;
+    rx = side[0] * k;
+    ry = side[1] * k;
   }
+  rx = Math.max(rx, 0.5);
+  ry = Math.max(ry, 0.5);
+
+  const gradientTransform = gradientTransformFromHandles(
+    { x: center.x - rx, y: center.y - ry }, { x: 2 * rx, y: 0 }, { x: 0, y: 2 * ry }, w, h);
 
-  if (gradientStops.length < 2) return null;
+  // 스톱 위치(px)는 가로 반지름 기준
+  const stops = parseColorStops(parts.slice(stopStart), (t) => lengthFraction(t, rx));
+  if (stops.length < 2) return null;
 
   return {
-    type: 'GRADIENT_LINEAR',
+    type: 'GRADIENT_RADIAL',
+    gradientTransform,
+    gradientStops: finalizeStops(stops, !!m[1]),
+    opacity: 1,
+  };
+}
+
+/**
+ * CSS conic-gradient() / repeating-conic-gradient() → GRADIENT_ANGULAR
+ * 설정: [from 각도] [at 위치], 스톱 위치는 각도 또는 %
+ * CSS는 12시 방향에서 시계방향, Figma 각도 그라디언트는 그라디언트 공간 +x 방향에서 시작하므로
+ * (from - 90°)만큼 회전한 핸들을 만든다.
+ */
+function parseConicGradient(css: string, w = 1, h = 1): GradientPaint | null {
+  const m = css.match(/^(repeating-)?conic-gradient\(([\s\S]+)\)$/i);
+  if (!m) return null;
+
+  const parts = splitTopLevelCommas(m[2]);
+  let stopStart = 0;
+  let fromDeg = 0;
+  let center: Vec = { x: w / 2, y: h / 2 };
+  if (parts.length > 0 && isGradientConfig(parts[0])) {
+    const config = parts[0].trim().toLowerCase();
+    const fromMatch = config.match(/\bfrom\s+(\S+)/);
+    if (fromMatch) fromDeg = parseAngle(fromMatch[1]) ?? 0;
+    const atMatch = config.match(/\bat\s+(.+)$/);
+    if (atMatch) center = parseGradientPosition(atMatch[1].split(/\s+/), w, h);
+    stopStart = 1;
+  }
+  if (parts.length - stopStart < 2) return null;
+
+  // 픽셀 공간에서 원형을 유지하도록 박스를 덮는 반지름 사용
+  const r = Math.max(Math.hypot(w, h), 1);
+  const phi = ((fromDeg - 90) * Math.PI) / 180;
+  const xAxis = { x: 2 * r * Math.cos(phi), y: 2 * r * Math.sin(phi) };
+  const yAxis = { x: -xAxis.y, y: xAxis.x };
+  const gradientTransform = gradientTransformFromHandles(
+    { x: center.x - (xAxis.x + yAxis.x) / 2, y: center.y - (xAxis.y + yAxis.y) / 2 },
+    xAxis, yAxis, w, h);
+
+  const stops = parseColorStops(parts.slice(stopStart), (t) => {
+    const deg = parseAngle(t);
+    if (deg !== null) return deg / 360;
+    return t.endsWith('%') ? parseFloat(t) / 100 : null;
+  });
+  if (stops.length < 2) return null;
+
+  return {
+    type: 'GRADIENT_ANGULAR',
     gradientTransform,
-    gradientStops,
+    gradientStops: finalizeStops(stops, !!m[1]),
     opacity: 1,
   };
 }
 
+/** linear / radial / conic (및 repeating-*) 그라디언트 중 맞는 파서로 변환 */
+function parseGradient(css: string, w = 1, h = 1): GradientPaint | null {
+  const value = css.trim();
+  return parseLinearGradient(value, w, h) ??
+    parseRadialGradient(value, w, h) ??
+    parseConicGradient(value, w, h);
+}
+
 /** #hex 색상 파싱 보조 */
 function parseHexColor(hex: string): ParsedColor | null {
   const m = hex.trim().match(/^#([\da-fA-F]{3,8})$/);
@@ -343,71 +1022,549 @@ function parseHexColor(hex: string): ParsedColor | null {
   };
 }
 
-// ─── 스타일 적용 헬퍼 ─────────────────────────────────────────
+// ─── 이미지 채우기 ─────────────────────────────────────────────
 
-function applyFills(node: GeometryMixin, bgColor: string): void {
-  const paint = toSolidPaint(bgColor);
-  (node as any).fills = paint ? [paint] : [];
+/** CSS position 토큰("50%", "12px")을 여유 공간(free) 기준 오프셋(px)으로 변환 */
+function resolvePositionToken(token: string | undefined, free: number): number {
+  if (!token) return free / 2;
+  const v = parseFloat(token);
+  if (isNaN(v)) return free / 2;
+  return token.endsWith('%') ? (free * v) / 100 : v;
 }
 
-function applyCornerRadius(frame: FrameNode | RectangleNode, s: DomStyleData): void {
-  const { borderTopLeftRadius: tl, borderTopRightRadius: tr,
-          borderBottomRightRadius: br, borderBottomLeftRadius: bl } = s;
-  if (tl === tr && tr === br && br === bl) {
-    if (tl > 0) (frame as any).cornerRadius = Math.round(tl);
-  } else {
-    (frame as FrameNode).topLeftRadius = Math.round(tl);
-    (frame as FrameNode).topRightRadius = Math.round(tr);
-    (frame as FrameNode).bottomRightRadius = Math.round(br);
-    (frame as FrameNode).bottomLeftRadius = Math.round(bl);
-  }
+/**
+ * 박스(w×h) 안에 그려지는 이미지 영역(dx, dy, dw, dh) → CROP imageTransform.
+ * transform은 노드 좌표(0~1) → 이미지 좌표(0~1) 매핑이므로
+ * 이미지가 박스를 완전히 덮는 경우에만 정확하다 (이미지 밖 영역은 크롭 불가).
+ */
+function cropTransform(w: number, h: number, dx: number, dy: number, dw: number, dh: number): Transform {
+  return [
+    [w / dw, 0, -dx / dw],
+    [0, h / dh, -dy / dh],
+  ];
 }
 
-function applyStrokes(frame: FrameNode, s: DomStyleData): void {
-  const maxW = Math.max(s.borderTopWidth, s.borderRightWidth, s.borderBottomWidth, s.borderLeftWidth);
-  if (maxW <= 0 || s.borderStyle === 'none' || isTransparent(s.borderColor)) return;
-  const paint = toSolidPaint(s.borderColor);
-  if (!paint) return;
-  frame.strokes = [paint];
-  frame.strokeAlign = 'INSIDE';
+/**
+ * 박스 안에서 이미지를 어떻게 그릴지 — object-fit과 background-size 공통 표현
+ *   cover / contain / stretch : 박스 기준 배율
+ *   explicit                  : 그려질 픽셀 크기 (dw × dh)
+ */
+interface ImageLayout {
+  size: 'cover' | 'contain' | 'stretch' | 'explicit';
+  dw?: number;
+  dh?: number;
+  position: string;   // "50% 50%" / "10px 0%" (computed 값)
+  tile: boolean;      // background-repeat
+}
 
-  const isUniform =
-    s.borderTopWidth === s.borderRightWidth &&
-    s.borderRightWidth === s.borderBottomWidth &&
-    s.borderBottomWidth === s.borderLeftWidth;
+/**
+ * ImageLayout → Figma ImagePaint.
+ *   stretch                 → CROP(항등 변환) = 박스에 늘려 채움
+ *   cover (가운데)          → FILL
+ *   박스를 덮는 cover/크기  → 위치만큼 이동한 CROP
+ *   contain / 박스보다 작음 → FIT (Figma는 레터박스를 가운데 정렬로만 표현 가능)
+ *   tile                    → TILE (배율만 반영, 타일 시작 위치는 표현 불가)
+ * TILE 배율은 원본 크기(iw)가 아니라 실제 바이트의 픽셀 너비(pixelWidth) 기준 — 큰 이미지는 축소돼 들어온다.
+ */
+function buildImagePaint(
+  hash: string, iw: number, ih: number, w: number, h: number, layout: ImageLayout, pixelWidth = iw,
+): ImagePaint {
+  const paint = { type: 'IMAGE' as const, imageHash: hash };
+  iw = Math.max(iw, 1);
+  ih = Math.max(ih, 1);
 
-  if (isUniform) {
-    frame.strokeWeight = maxW;
-  } else {
-    // 개별 면 설정 (border-bottom만 있는 구분선 등)
-    frame.strokeTopWeight = s.borderTopWidth;
-    frame.strokeRightWeight = s.borderRightWidth;
-    frame.strokeBottomWeight = s.borderBottomWidth;
-    frame.strokeLeftWeight = s.borderLeftWidth;
+  let dw = layout.dw ?? iw;
+  let dh = layout.dh ?? ih;
+  if (layout.size === 'cover' || layout.size === 'contain') {
+    const scale = layout.size === 'cover' ? Math.max(w / iw, h / ih) : Math.min(w / iw, h / ih);
+    dw = iw * scale;
+    dh = ih * scale;
+  } else if (layout.size === 'stretch') {
+    dw = w;
+    dh = h;
   }
-}
 
-function applyEffects(frame: FrameNode, s: DomStyleData): void {
-  const shadow = parseBoxShadow(s.boxShadow);
-  if (shadow) frame.effects = [shadow];
+  if (layout.tile) {
+    return { ...paint, scaleMode: 'TILE', scalingFactor: dw / Math.max(pixelWidth, 1) };
+  }
+  if (layout.size === 'stretch') {
+    return { ...paint, scaleMode: 'CROP', imageTransform: [[1, 0, 0], [0, 1, 0]] };
+  }
+
+  const [posX, posY] = (layout.position || '50% 50%').split(/\s+/);
+  const dx = resolvePositionToken(posX, w - dw);
+  const dy = resolvePositionToken(posY, h - dh);
+  const covers = dx <= 0.5 && dy <= 0.5 && dx + dw >= w - 0.5 && dy + dh >= h - 0.5;
+  if (!covers) return { ...paint, scaleMode: 'FIT' };
+
+  const centered = (!posX || posX === '50%') && (!posY || posY === '50%');
+  if (layout.size === 'cover' && centered) return { ...paint, scaleMode: 'FILL' };
+  return { ...paint, scaleMode: 'CROP', imageTransform: cropTransform(w, h, dx, dy, dw, dh) };
 }
 
-function applyFrameStyle(frame: FrameNode, s: DomStyleData): void {
-  // backgroundImage(gradient)가 있으면 우선 적용, 없으면 backgroundColor
-  let fills: Paint[] = [];
-  if (s.backgroundImage && s.backgroundImage !== 'none' && s.backgroundImage !== '') {
-    const grad = parseLinearGradient(s.backgroundImage);
-    if (grad) {
-      fills = [grad];
-    } else {
-      const solid = toSolidPaint(s.backgroundColor);
-      if (solid) fills = [solid];
-    }
-  } else {
-    const solid = toSolidPaint(s.backgroundColor);
-    if (solid) fills = [solid];
+/** object-fit / object-position → ImageLayout */
+function objectFitLayout(s: DomStyleData, iw: number, ih: number, w: number, h: number): ImageLayout {
+  const position = s.objectPosition;
+  switch (s.objectFit) {
+    case 'cover':
+      return { size: 'cover', position, tile: false };
+    case 'contain':
+      return { size: 'contain', position, tile: false };
+    case 'none':
+      return { size: 'explicit', dw: iw, dh: ih, position, tile: false };
+    case 'scale-down':
+      return iw <= w && ih <= h
+        ? { size: 'explicit', dw: iw, dh: ih, position, tile: false }
+        : { size: 'contain', position, tile: false };
+    default:
+      return { size: 'stretch', position, tile: false };
   }
-  frame.fills = fills;
+}
+
+/**
+ * background-size / background-position / background-repeat (레이어 하나) → ImageLayout.
+ * background-size 값: cover | contain | "<w> <h>" (각각 px / % / auto)
+ */
+function backgroundLayout(
+  size: string, position: string, repeat: string, iw: number, ih: number, w: number, h: number,
+): ImageLayout {
+  const tile = !!repeat && repeat !== 'no-repeat' && repeat !== 'no-repeat no-repeat';
+  if (size === 'cover' || size === 'contain') return { size, position, tile };
+
+  const [sw, sh] = (size || 'auto').split(/\s+/);
+  const resolve = (token: string | undefined, box: number): number | null => {
+    if (!token || token === 'auto') return null;
+    const v = parseFloat(token);
+    if (isNaN(v)) return null;
+    return token.endsWith('%') ? (box * v) / 100 : v;
+  };
+  let dw = resolve(sw, w);
+  let dh = resolve(sh, h);
+  // auto는 다른 축 기준 원본 비율 유지, 둘 다 auto면 원본 크기
+  if (dw === null && dh === null) { dw = iw; dh = ih; }
+  else if (dw === null) dw = (dh! * iw) / Math.max(ih, 1);
+  else if (dh === null) dh = (dw * ih) / Math.max(iw, 1);
+  return { size: 'explicit', dw, dh: dh!, position, tile };
+}
+
+/** 이미지 에셋으로 Figma Image 생성 (바이트 없음 / 디코드 실패 시 null) */
+function createImageFromAsset(asset: ImageAsset | undefined): Image | null {
+  if (!asset || !asset.bytes) return null;
+  try {
+    return figma.createImage(asset.bytes);
+  } catch {
+    return null;
+  }
+}
+
+/** CSS url("...") 레이어에서 URL 추출 */
+function parseCssUrl(layer: string): string | null {
+  const m = layer.trim().match(/^url\(\s*(['"]?)([\s\S]*?)\1\s*\)$/i);
+  return m ? m[2] : null;
+}
+
+/** background-image: url() 레이어 → IMAGE 페인트 (이미지를 읽지 못했으면 null) */
+function parseBackgroundUrl(
+  layer: string, size: string, position: string, repeat: string, w: number, h: number,
+): ImagePaint | null {
+  const url = parseCssUrl(layer);
+  if (!url) return null;
+  const asset = imageAssets[url];
+  const image = createImageFromAsset(asset);
+  if (!image || !asset) return null;
+  const iw = asset.width ?? w;
+  const ih = asset.height ?? h;
+  return buildImagePaint(
+    image.hash, iw, ih, w, h, backgroundLayout(size, position, repeat, iw, ih, w, h), asset.pixelWidth ?? iw,
+  );
+}
+
+// ─── CSS filter / backdrop-filter ─────────────────────────────
+
+interface CssFilterFn {
+  name: string;
+  args: string;
+}
+
+/** "blur(4px) drop-shadow(rgba(0, 0, 0, 0.5) 0px 4px 8px)" → 함수 목록 (중첩 괄호 허용) */
+function parseFilterFunctions(css: string): CssFilterFn[] {
+  if (!css || css === 'none') return [];
+  const fns: CssFilterFn[] = [];
+  const re = /([a-z-]+)\(((?:[^()]|\([^()]*\))*)\)/gi;
+  let m;
+  while ((m = re.exec(css)) !== null) {
+    fns.push({ name: m[1].toLowerCase(), args: m[2].trim() });
+  }
+  // url(#svg-filter) 등은 위 정규식에서 url 함수로 잡힘
+  return fns;
+}
+
+/** 필터 인자 "0.5" / "50%" → 0.5 (생략 시 기본값) */
+function filterAmount(args: string, fallback: number): number {
+  if (!args) return fallback;
+  const v = parseFloat(args);
+  if (isNaN(v)) return fallback;
+  return args.endsWith('%') ? v / 100 : v;
+}
+
+// CSS Filter Effects 명세의 색상 행렬 (RGB 3×3, 0~1 선형 값 기준)
+type ColorMatrix = number[];
+
+function saturateMatrix(s: number): ColorMatrix {
+  return [
+    0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s,
+  ];
+}
+
+function hueRotateMatrix(deg: number): ColorMatrix {
+  const rad = (deg * Math.PI) / 180;
+  const c = Math.cos(rad), s = Math.sin(rad);
+  return [
+    0.213 + c * 0.787 - s * 0.213, 0.715 - c * 0.715 - s * 0.715, 0.072 - c * 0.072 + s * 0.928,
+    0.213 - c * 0.213 + s * 0.143, 0.715 + c * 0.285 + s * 0.140, 0.072 - c * 0.072 - s * 0.283,
+    0.213 - c * 0.213 - s * 0.787, 0.715 - c * 0.715 + s * 0.715, 0.072 + c * 0.928 + s * 0.072,
+  ];
+}
+
+function sepiaMatrix(a: number): ColorMatrix {
+  const k = 1 - Math.min(a, 1);
+  return [
+    0.393 + 0.607 * k, 0.769 - 0.769 * k, 0.189 - 0.189 * k,
+    0.349 - 0.349 * k, 0.686 + 0.314 * k, 0.168 - 0.168 * k,
+    0.272 - 0.272 * k, 0.534 - 0.534 * k, 0.131 + 0.869 * k,
+  ];
+}
+
+const clamp01 = (v: number) => Math.min(Math.max(v, 0), 1);
+
+/** 색상 필터 하나를 RGB에 적용 (적용 불가 함수면 null) */
+function applyColorFilter(rgb: RGB, fn: CssFilterFn): RGB | null {
+  const matrix = (mx: ColorMatrix): RGB => ({
+    r: clamp01(mx[0] * rgb.r + mx[1] * rgb.g + mx[2] * rgb.b),
+    g: clamp01(mx[3] * rgb.r + mx[4] * rgb.g + mx[5] * rgb.b),
+    b: clamp01(mx[6] * rgb.r + mx[7] * rgb.g + mx[8] * rgb.b),
+  });
+  const each = (f: (v: number) => number): RGB => ({ r: clamp01(f(rgb.r)), g: clamp01(f(rgb.g)), b: clamp01(f(rgb.b)) });
+  switch (fn.name) {
+    case 'brightness': {
+      const k = filterAmount(fn.args, 1);
+      return each((v) => v * k);
+    }
+    case 'contrast': {
+      const k = filterAmount(fn.args, 1);
+      return each((v) => (v - 0.5) * k + 0.5);
+    }
+    case 'invert': {
+      const k = Math.min(filterAmount(fn.args, 1), 1);
+      return each((v) => v * (1 - 2 * k) + k);
+    }
+    case 'grayscale':
+      return matrix(saturateMatrix(1 - Math.min(filterAmount(fn.args, 1), 1)));
+    case 'saturate':
+      return matrix(saturateMatrix(filterAmount(fn.args, 1)));
+    case 'sepia':
+      return matrix(sepiaMatrix(filterAmount(fn.args, 1)));
+    case 'hue-rotate':
+      return matrix(hueRotateMatrix(parseAngle(fn.args) ?? 0));
+    default:
+      return null;
+  }
+}
+
+const COLOR_FILTERS = new Set(['brightness', 'contrast', 'invert', 'grayscale', 'saturate', 'sepia', 'hue-rotate']);
+
+/**
+ * 색상 필터를 페인트에 근사 적용.
+ * SOLID/그라디언트는 색상 행렬을 그대로 적용하고, IMAGE는 Figma 이미지 조정값으로 근사한다.
+ * 이미지에 표현할 수 없는 함수(hue-rotate, invert, sepia)는 경고로 보고.
+ */
+function filterPaint(paint: Paint, fns: CssFilterFn[]): Paint {
+  if (paint.type === 'SOLID') {
+    let color = paint.color;
+    for (const fn of fns) color = applyColorFilter(color, fn) ?? color;
+    return { ...paint, color };
+  }
+  if (paint.type === 'GRADIENT_LINEAR' || paint.type === 'GRADIENT_RADIAL' ||
+    paint.type === 'GRADIENT_ANGULAR' || paint.type === 'GRADIENT_DIAMOND') {
+    return {
+      ...paint,
+      gradientStops: paint.gradientStops.map((st) => {
+        let rgb: RGB = { r: st.color.r, g: st.color.g, b: st.color.b };
+        for (const fn of fns) rgb = applyColorFilter(rgb, fn) ?? rgb;
+        return { ...st, color: { ...rgb, a: st.color.a } };
+      }),
+    };
+  }
+  if (paint.type === 'IMAGE') {
+    const adjust = (v: number) => Math.min(Math.max(v, -1), 1);
+    let exposure = paint.filters?.exposure ?? 0;
+    let contrast = paint.filters?.contrast ?? 0;
+    let saturation = paint.filters?.saturation ?? 0;
+    for (const fn of fns) {
+      const k = filterAmount(fn.args, 1);
+      if (fn.name === 'brightness') exposure = adjust(exposure + (k - 1));
+      else if (fn.name === 'contrast') contrast = adjust(contrast + (k - 1));
+      else if (fn.name === 'saturate') saturation = adjust(saturation + (k - 1));
+      else if (fn.name === 'grayscale') saturation = adjust(saturation - Math.min(k, 1));
+      else warn(`filter: ${fn.name}() — 이미지에는 근사할 수 없어 생략됨`);
+    }
+    return { ...paint, filters: { ...paint.filters, exposure, contrast, saturation } };
+  }
+  return paint;
+}
+
+/** 노드와 모든 하위 노드의 채우기/선 색상에 색상 필터 적용 (CSS filter는 하위 트리 전체에 작용) */
+function applyColorFiltersToSubtree(node: SceneNode, fns: CssFilterFn[]): void {
+  if ('fills' in node) {
+    if (node.fills !== figma.mixed) {
+      node.fills = node.fills.map((p) => filterPaint(p, fns));
+    } else if (node.type === 'TEXT') {
+      for (const seg of node.getStyledTextSegments(['fills'])) {
+        node.setRangeFills(seg.start, seg.end, seg.fills.map((p) => filterPaint(p, fns)));
+      }
+    }
+  }
+  if ('strokes' in node && node.strokes.length > 0) {
+    node.strokes = node.strokes.map((p) => filterPaint(p, fns));
+  }
+  if ('children' in node) {
+    for (const child of node.children) applyColorFiltersToSubtree(child, fns);
+  }
+}
+
+/**
+ * filter / backdrop-filter → Figma 효과 및 채우기 근사.
+ *   filter: blur()              → LAYER_BLUR
+ *   filter: drop-shadow()       → DROP_SHADOW
+ *   filter: opacity()           → 노드 불투명도
+ *   filter: brightness() 등     → 하위 트리 채우기 색상에 근사 적용
+ *   backdrop-filter: blur()     → BACKGROUND_BLUR
+ * CSS blur(σ)는 표준편차, Figma blur 반경은 약 2σ에 해당한다.
+ * 그 외(url(), backdrop의 색상 함수 등)는 경고로 보고한다.
+ */
+function applyFilters(node: SceneNode, s: DomStyleData): void {
+  const fns = parseFilterFunctions(s.filter);
+  const backdrop = parseFilterFunctions(s.backdropFilter);
+  if (fns.length === 0 && backdrop.length === 0) return;
+
+  const effects: Effect[] = [];
+  const colorFns: CssFilterFn[] = [];
+  for (const fn of fns) {
+    if (fn.name === 'blur') {
+      effects.push({
+        type: 'LAYER_BLUR', blurType: 'NORMAL', radius: 2 * (parseFloat(fn.args) || 0), visible: true,
+      });
+    } else if (fn.name === 'drop-shadow') {
+      const sh = parseShadow(fn.args, s.color);
+      if (sh) effects.push(shadowToEffect({ ...sh, inset: false, spread: 0 }));
+    } else if (fn.name === 'opacity') {
+      if ('opacity' in node) node.opacity *= clamp01(filterAmount(fn.args, 1));
+    } else if (COLOR_FILTERS.has(fn.name)) {
+      colorFns.push(fn);
+    } else {
+      warn(`filter: ${fn.name}() — Figma에 대응 기능이 없어 생략됨`);
+    }
+  }
+  for (const fn of backdrop) {
+    if (fn.name === 'blur') {
+      effects.push({
+        type: 'BACKGROUND_BLUR', blurType: 'NORMAL', radius: 2 * (parseFloat(fn.args) || 0), visible: true,
+      });
+    } else {
+      warn(`backdrop-filter: ${fn.name}() — Figma에 대응 기능이 없어 생략됨`);
+    }
+  }
+
+  if (effects.length > 0 && 'effects' in node) {
+    node.effects = [...node.effects, ...effects];
+  }
+  if (colorFns.length > 0) applyColorFiltersToSubtree(node, colorFns);
+}
+
+// ─── CSS transform → relativeTransform ────────────────────────
+
+/**
+ * CSS transform 행렬을 Figma 노드에 적용.
+ * 선형부 A를 회전 R · 기울임 K · 스케일 S로 분해(QR)해서
+ *   - S: 균등이면 rescale(자식·텍스트·선까지 비례), 비균등이면 크기만 반영
+ *   - R·K (+ 뒤집기): relativeTransform
+ * 으로 나눈다. 이동량은 transform-origin 기준 CSS 공식
+ *   p' = A·(p − o) + t + o + 레이아웃 위치
+ * 를 그대로 맞춘다.
+ */
+function applyCssTransform(node: SceneNode, t: DomTransformData): void {
+  if (!('relativeTransform' in node) || !('rescale' in node)) return;
+  const target = node as SceneNode & LayoutMixin;
+  const [a, b, c, d, e, f] = t.matrix;
+  const sx = Math.hypot(a, b);
+  if (sx < 1e-6) {
+    // scale(0) 등 → 보이지 않는 요소
+    target.visible = false;
+    return;
+  }
+  const sy = (a * d - b * c) / sx;
+  const shear = (a * c + b * d) / sx;
+  const cos = a / sx;
+  const sin = b / sx;
+  const flip = sy < 0 ? -1 : 1;
+  const absSy = Math.max(Math.abs(sy), 1e-6);
+  const pos = { x: target.x, y: target.y };  // 변환 전 레이아웃 위치
+
+  if (Math.abs(sx - absSy) < 0.001) {
+    if (Math.abs(sx - 1) > 0.001) target.rescale(sx);
+  } else {
+    target.resize(Math.max(target.width * sx, 0.01), Math.max(target.height * absSy, 0.01));
+    warn('transform: 비균등 scale은 자식을 늘리지 않고 레이어 크기에만 반영됨');
+  }
+
+  // L = R · [[1, shear/|sy|], [0, flip]]
+  const k = shear / absSy;
+  const l00 = cos, l10 = sin;
+  const l01 = cos * k - sin * flip;
+  const l11 = sin * k + cos * flip;
+  const tx = e + t.originX + pos.x - (a * t.originX + c * t.originY);
+  const ty = f + t.originY + pos.y - (b * t.originX + d * t.originY);
+  target.relativeTransform = [
+    [l00, l01, tx],
+    [l10, l11, ty],
+  ];
+}
+
+// ─── 스타일 적용 헬퍼 ─────────────────────────────────────────
+
+function applyFills(node: GeometryMixin, bgColor: string): void {
+  const paint = toSolidPaint(bgColor);
+  (node as any).fills = paint ? [paint] : [];
+}
+
+function applyCornerRadius(frame: FrameNode | RectangleNode, s: DomStyleData): void {
+  const { borderTopLeftRadius: tl, borderTopRightRadius: tr,
+          borderBottomRightRadius: br, borderBottomLeftRadius: bl } = s;
+  if (tl === tr && tr === br && br === bl) {
+    if (tl > 0) (frame as any).cornerRadius = Math.round(tl);
+  } else {
+    (frame as FrameNode).topLeftRadius = Math.round(tl);
+    (frame as FrameNode).topRightRadius = Math.round(tr);
+    (frame as FrameNode).bottomRightRadius = Math.round(br);
+    (frame as FrameNode).bottomLeftRadius = Math.round(bl);
+  }
+}
+
+function applyStrokes(frame: FrameNode, s: DomStyleData): void {
+  const sides = borderSides(s);
+  const visible = sides.filter(isVisibleSide);
+  if (visible.length === 0) return;
+  // 면별 색상/스타일이 다르면 stroke 하나로 표현 불가 → applyBorderDecorations가 면별 선으로 그림
+  const { color, style } = visible[0];
+  if (visible.some((b) => b.color !== color || b.style !== style)) return;
+  const paint = toSolidPaint(color);
+  if (!paint) return;
+  frame.strokes = [paint];
+  frame.strokeAlign = 'INSIDE';
+
+  // double은 바깥 선(폭의 1/3)만 stroke로, 안쪽 선은 applyBorderDecorations가 추가
+  const ratio = style === 'double' ? 1 / 3 : 1;
+  const [top, right, bottom, left] = sides.map((b) => (isVisibleSide(b) ? b.width * ratio : 0));
+  const maxW = Math.max(top, right, bottom, left);
+  const isUniform = top === right && right === bottom && bottom === left;
+
+  if (isUniform) {
+    frame.strokeWeight = maxW;
+  } else {
+    // 개별 면 설정 (border-bottom만 있는 구분선 등)
+    frame.strokeTopWeight = top;
+    frame.strokeRightWeight = right;
+    frame.strokeBottomWeight = bottom;
+    frame.strokeLeftWeight = left;
+  }
+  const dash = dashPatternFor(style, maxW);
+  if (dash.length > 0) frame.dashPattern = dash;
+}
+
+function applyEffects(frame: FrameNode, s: DomStyleData): void {
+  const effects = parseBoxShadow(s.boxShadow);
+  if (effects.length > 0) frame.effects = effects;
+}
+
+/**
+ * background-image의 쉼표 구분 레이어(그라디언트 / url)를 각각 페인트로 변환.
+ * CSS는 첫 레이어가 맨 위, Figma fills는 마지막이 맨 위 → 역순으로 쌓고
+ * background-color를 맨 아래에 둔다.
+ * background-size/position/repeat는 레이어 수보다 짧으면 CSS처럼 순환 적용.
+ */
+function buildBackgroundFills(s: DomStyleData, w: number, h: number): Paint[] {
+  const fills: Paint[] = [];
+  const solid = toSolidPaint(s.backgroundColor);
+  if (solid) fills.push(solid);
+  if (!s.backgroundImage || s.backgroundImage === 'none') return fills;
+
+  const layers = splitTopLevelCommas(s.backgroundImage);
+  const sizes = splitTopLevelCommas(s.backgroundSize || 'auto');
+  const positions = splitTopLevelCommas(s.backgroundPosition || '0% 0%');
+  const repeats = splitTopLevelCommas(s.backgroundRepeat || 'repeat');
+  const layerPaints: Paint[] = [];
+  layers.forEach((layer, i) => {
+    const paint = parseGradient(layer, w, h) ??
+      parseBackgroundUrl(layer, sizes[i % sizes.length], positions[i % positions.length],
+        repeats[i % repeats.length], w, h);
+    if (paint) layerPaints.push(paint);
+  });
+  return fills.concat(layerPaints.reverse());
+}
+
+// ─── background-clip: text ────────────────────────────────────
+
+/** 아핀 변환 합성 a·b (b를 먼저 적용) */
+function multiplyTransform(a: Transform, b: Transform): Transform {
+  return [
+    [
+      a[0][0] * b[0][0] + a[0][1] * b[1][0],
+      a[0][0] * b[0][1] + a[0][1] * b[1][1],
+      a[0][0] * b[0][2] + a[0][1] * b[1][2] + a[0][2],
+    ],
+    [
+      a[1][0] * b[0][0] + a[1][1] * b[1][0],
+      a[1][0] * b[0][1] + a[1][1] * b[1][1],
+      a[1][0] * b[0][2] + a[1][1] * b[1][2] + a[1][2],
+    ],
+  ];
+}
+
+/**
+ * background-clip: text — 요소 박스 기준으로 만든 배경 페인트를 하위 텍스트 노드의 fills로 옮긴다.
+ * 그라디언트 좌표는 노드 자신의 크기(0~1) 기준이므로, 텍스트 노드 영역을 요소 박스 안의
+ * 위치로 재매핑해 글자마다 그라디언트가 다시 시작되지 않고 박스 전체에 한 번 펼쳐지게 한다.
+ * origin은 요소 박스의 절대 좌표.
+ */
+function applyBackgroundClipText(node: SceneNode, s: DomStyleData, origin: Vec, w: number, h: number): void {
+  const fills = buildBackgroundFills(s, w, h);
+  if (fills.length === 0) return;
+  const texts: TextNode[] = node.type === 'TEXT'
+    ? [node]
+    : 'findAllWithCriteria' in node ? node.findAllWithCriteria({ types: ['TEXT'] }) : [];
+  for (const t of texts) {
+    const tx = t.absoluteTransform[0][2] - origin.x;
+    const ty = t.absoluteTransform[1][2] - origin.y;
+    // 텍스트 정규화 좌표 → 요소 박스 정규화 좌표
+    const toBox: Transform = [
+      [t.width / w, 0, tx / w],
+      [0, t.height / h, ty / h],
+    ];
+    t.fills = fills.map((paint): Paint => {
+      if (paint.type === 'GRADIENT_LINEAR' || paint.type === 'GRADIENT_RADIAL' ||
+          paint.type === 'GRADIENT_ANGULAR' || paint.type === 'GRADIENT_DIAMOND') {
+        return { ...paint, gradientTransform: multiplyTransform(paint.gradientTransform, toBox) };
+      }
+      return paint;
+    });
+  }
+}
+
+function applyFrameStyle(frame: FrameNode, s: DomStyleData): void {
+  // background-clip: text면 배경은 글자 채우기로만 쓰임 (buildTree 후처리)
+  frame.fills = s.backgroundClipText ? [] : buildBackgroundFills(s, frame.width, frame.height);
 
   applyCornerRadius(frame, s);
   if (s.opacity < 1) frame.opacity = s.opacity;
@@ -418,313 +1575,3046 @@ function applyFrameStyle(frame: FrameNode, s: DomStyleData): void {
   frame.clipsContent = s.overflow === 'hidden' || s.overflow === 'clip';
 }
 
-// ─── 재귀 노드 빌더 ───────────────────────────────────────────
-
-let frameCount = 0;
-let textCount = 0;
+// ─── 테두리 스타일 / 면별 색상 / outline ───────────────────────
+
+type BorderSideName = 'Top' | 'Right' | 'Bottom' | 'Left';
+
+interface BorderSide {
+  width: number;
+  color: string;
+  style: string;  // normalizeBorderStyle 결과: solid | dashed | dotted | double | none
+}
+
+/**
+ * Figma로 그릴 수 있는 스타일로 정규화.
+ * double은 브라우저처럼 3px 미만이면 solid, groove/ridge/inset/outset은 solid로 근사.
+ */
+function normalizeBorderStyle(style: string, width: number): string {
+  if (!style || style === 'none' || style === 'hidden') return 'none';
+  if (style === 'double') return width >= 3 ? 'double' : 'solid';
+  if (style === 'dashed' || style === 'dotted') return style;
+  return 'solid';
+}
+
+function borderSides(s: DomStyleData): BorderSide[] {
+  const sides: BorderSideName[] = ['Top', 'Right', 'Bottom', 'Left'];
+  return sides.map((side) => {
+    const width = s[`border${side}Width` as const];
+    return {
+      width,
+      color: s[`border${side}Color` as const],
+      style: normalizeBorderStyle(s[`border${side}Style` as const], width),
+    };
+  });
+}
+
+function isVisibleSide(b: BorderSide): boolean {
+  return b.width > 0 && b.style !== 'none' && !isTransparent(b.color);
+}
+
+function hasVisibleBorder(s: DomStyleData): boolean {
+  return borderSides(s).some(isVisibleSide);
+}
+
+function hasOutline(s: DomStyleData): boolean {
+  return s.outlineWidth > 0 &&
+    normalizeBorderStyle(s.outlineStyle, s.outlineWidth) !== 'none' &&
+    !isTransparent(s.outlineColor);
+}
+
+/** dashed/dotted → 선 두께에 비례한 dashPattern (Chrome 렌더링 근사) */
+function dashPatternFor(style: string, width: number): number[] {
+  if (style === 'dotted') return [width, width];
+  if (style === 'dashed') return width < 3 ? [width * 3, width * 3] : [width * 2, width];
+  return [];
+}
+
+/**
+ * 한 면을 그리는 선 목록 — inset은 바깥 가장자리에서 선 중심까지 거리.
+ * double은 폭을 3등분해 바깥/안쪽 두 줄.
+ */
+function sideStrokeLines(b: BorderSide): { inset: number; weight: number }[] {
+  if (b.style === 'double') {
+    const third = b.width / 3;
+    return [{ inset: third / 2, weight: third }, { inset: b.width - third / 2, weight: third }];
+  }
+  return [{ inset: b.width / 2, weight: b.width }];
+}
+
+/** border-radius를 inset만큼 안쪽(음수면 바깥쪽)으로 옮긴 사각형 모서리 */
+function applyInsetRadius(rect: RectangleNode, s: DomStyleData, inset: number): void {
+  const r = (v: number) => (v > 0 ? Math.max(v - inset, 0) : 0);
+  rect.topLeftRadius = r(s.borderTopLeftRadius);
+  rect.topRightRadius = r(s.borderTopRightRadius);
+  rect.bottomRightRadius = r(s.borderBottomRightRadius);
+  rect.bottomLeftRadius = r(s.borderBottomLeftRadius);
+}
+
+/**
+ * 장식 레이어를 프레임에 추가. below면 콘텐츠 아래(CSS border 칠 순서), 아니면 맨 위(outline).
+ * Auto Layout 프레임이면 ABSOLUTE로 띄워 흐름에 끼지 않게 한 뒤 좌표를 지정한다.
+ */
+function placeDecoration(
+  frame: FrameNode,
+  node: SceneNode & LayoutMixin,
+  transform: Transform,
+  below: boolean,
+): void {
+  try {
+    if (below) frame.insertChild(0, node);
+    else frame.appendChild(node);
+    if (frame.layoutMode !== 'NONE') node.layoutPositioning = 'ABSOLUTE';
+    node.relativeTransform = transform;
+  } catch {
+    // Grid 셀이 가득 찬 경우 등
+    node.remove();
+    warn('border: 일부 테두리 장식 레이어를 추가하지 못함');
+  }
+}
+
+function createBorderLine(length: number, weight: number, paint: SolidPaint, style: string): LineNode {
+  const line = figma.createLine();
+  line.name = 'border';
+  line.resize(Math.max(length, 0.01), 0);
+  line.strokes = [paint];
+  line.strokeWeight = weight;
+  line.strokeCap = 'NONE';
+  const dash = dashPatternFor(style, weight);
+  if (dash.length > 0) line.dashPattern = dash;
+  return line;
+}
+
+/**
+ * 프레임 stroke 하나로 표현할 수 없는 테두리를 자식 레이어로 보충.
+ *   - 면별 색상/스타일이 다름 → 면마다 Line (상하 면이 모서리를 차지)
+ *   - 단일 색상 double → applyStrokes의 바깥 stroke + 안쪽 사각형
+ *   - outline → border-box 바깥으로 outline-offset만큼 떨어진 사각형
+ * 자식 배치·레이아웃 변환이 끝난 뒤 호출해야 흐름 자식과 섞이지 않는다.
+ */
+function applyBorderDecorations(frame: FrameNode, s: DomStyleData): void {
+  const w = frame.width;
+  const h = frame.height;
+  const sides = borderSides(s);
+  const visible = sides.filter(isVisibleSide);
+  const mixed = visible.some((b) => b.color !== visible[0].color || b.style !== visible[0].style);
+
+  if (mixed) {
+    const [top, right, bottom, left] = sides;
+    const hasRadius = s.borderTopLeftRadius > 0 || s.borderTopRightRadius > 0 ||
+      s.borderBottomRightRadius > 0 || s.borderBottomLeftRadius > 0;
+    if (hasRadius) warn('border: 둥근 모서리의 면별 테두리는 직선으로 근사됨');
+
+    // 역순 삽입(insertChild(0)) → 최종 z-순서 top, right, bottom, left
+    const draws: { b: BorderSide; make: (inset: number) => [Transform, number] }[] = [
+      { b: left, make: (i) => [[[0, -1, i], [1, 0, top.width]], h - top.width - bottom.width] },
+      { b: bottom, make: (i) => [[[1, 0, 0], [0, 1, h - i]], w] },
+      { b: right, make: (i) => [[[0, -1, w - i], [1, 0, top.width]], h - top.width - bottom.width] },
+      { b: top, make: (i) => [[[1, 0, 0], [0, 1, i]], w] },
+    ];
+    for (const { b, make } of draws) {
+      if (!isVisibleSide(b)) continue;
+      const paint = toSolidPaint(b.color);
+      if (!paint) continue;
+      for (const { inset, weight } of sideStrokeLines(b)) {
+        const [transform, length] = make(inset);
+        if (length <= 0) continue;
+        placeDecoration(frame, createBorderLine(length, weight, paint, b.style), transform, true);
+      }
+    }
+  } else if (visible.length > 0 && visible[0].style === 'double') {
+    const paint = toSolidPaint(visible[0].color);
+    const [top, right, bottom, left] = sides.map((b) => (isVisibleSide(b) ? b.width : 0));
+    if (paint) {
+      const inner = figma.createRectangle();
+      inner.name = 'border (inner)';
+      inner.resize(
+        Math.max(w - (left + right) * 2 / 3, 0.01),
+        Math.max(h - (top + bottom) * 2 / 3, 0.01),
+      );
+      inner.fills = [];
+      inner.strokes = [paint];
+      inner.strokeAlign = 'INSIDE';
+      inner.strokeTopWeight = top / 3;
+      inner.strokeRightWeight = right / 3;
+      inner.strokeBottomWeight = bottom / 3;
+      inner.strokeLeftWeight = left / 3;
+      applyInsetRadius(inner, s, Math.max(top, right, bottom, left) * 2 / 3);
+      placeDecoration(frame, inner, [[1, 0, left * 2 / 3], [0, 1, top * 2 / 3]], true);
+    }
+  }
+
+  if (hasOutline(s)) {
+    const paint = toSolidPaint(s.outlineColor);
+    if (!paint) return;
+    if (frame.clipsContent) warn('outline: overflow:hidden 요소의 outline은 잘려 보일 수 있음');
+    const outline: BorderSide = {
+      width: s.outlineWidth,
+      color: s.outlineColor,
+      style: normalizeBorderStyle(s.outlineStyle, s.outlineWidth),
+    };
+    // 바깥 가장자리 기준 inset → border-box에서 선 중심까지 거리로 환산
+    for (const { inset, weight } of sideStrokeLines(outline)) {
+      const d = s.outlineOffset + outline.width - inset;
+      const rect = figma.createRectangle();
+      rect.name = 'outline';
+      rect.resize(Math.max(w + d * 2, 0.01), Math.max(h + d * 2, 0.01));
+      rect.fills = [];
+      rect.strokes = [paint];
+      rect.strokeAlign = 'CENTER';
+      rect.strokeWeight = weight;
+      const dash = dashPatternFor(outline.style, weight);
+      if (dash.length > 0) rect.dashPattern = dash;
+      applyInsetRadius(rect, s, -d);
+      placeDecoration(frame, rect, [[1, 0, -d], [0, 1, -d]], false);
+    }
+  }
+}
+
+// ─── Auto Layout (display:flex → Figma Auto Layout) ───────────
+
+/** buildTree가 생성한 Figma 노드와 원본 DOM 데이터 쌍 */
+interface BuiltChild {
+  node: SceneNode;
+  data: DomNodeData;
+}
+
+type AxisAlign = 'MIN' | 'CENTER' | 'MAX';
+
+const JUSTIFY_MAP: Record<string, AxisAlign | 'SPACE_BETWEEN'> = {
+  'normal': 'MIN', 'flex-start': 'MIN', 'start': 'MIN', 'left': 'MIN',
+  'center': 'CENTER',
+  'flex-end': 'MAX', 'end': 'MAX', 'right': 'MAX',
+  'space-between': 'SPACE_BETWEEN',
+};
+
+const ALIGN_MAP: Record<string, AxisAlign | 'BASELINE'> = {
+  'normal': 'MIN', 'stretch': 'MIN', 'flex-start': 'MIN', 'start': 'MIN', 'self-start': 'MIN',
+  'center': 'CENTER',
+  'flex-end': 'MAX', 'end': 'MAX', 'self-end': 'MAX',
+  'baseline': 'BASELINE', 'first baseline': 'BASELINE',
+};
+
+function isFlexContainer(s: DomStyleData): boolean {
+  return s.display === 'flex' || s.display === 'inline-flex';
+}
+
+/** position:absolute/fixed 자식은 flex 흐름에서 빠지므로 Auto Layout에서도 ABSOLUTE로 유지 */
+function isOutOfFlow(s: DomStyleData): boolean {
+  return s.position === 'absolute' || s.position === 'fixed';
+}
+
+/**
+ * HUG 시도: Auto Layout 프레임/텍스트만 HUG 가능.
+ * HUG 적용 후 크기가 DOM 크기와 1px 이상 달라지면 FIXED로 되돌린다
+ * (명시적 width/height가 지정된 요소를 잘못 줄이지 않기 위함).
+ */
+function trySizing(node: SceneNode, axis: 'h' | 'v', mode: 'HUG' | 'FILL' | 'FIXED'): void {
+  if (!('layoutSizingHorizontal' in node)) return;
+  const n = node as FrameNode | TextNode;
+  const w = n.width;
+  const h = n.height;
+  const prop = axis === 'h' ? 'layoutSizingHorizontal' : 'layoutSizingVertical';
+
+  if (mode === 'HUG') {
+    const canHug = n.type === 'TEXT' || (n.type === 'FRAME' && n.layoutMode !== 'NONE');
+    if (!canHug) return;
+    try {
+      n[prop] = 'HUG';
+    } catch {
+      return;
+    }
+    const changed = axis === 'h' ? Math.abs(n.width - w) > 1 : Math.abs(n.height - h) > 1;
+    if (changed) {
+      n[prop] = 'FIXED';
+      n.resize(Math.max(w, 0.01), Math.max(h, 0.01));
+    }
+    return;
+  }
+
+  try {
+    n[prop] = mode;
+  } catch {
+    // FILL 불가 노드(부모가 Auto Layout이 아닌 경우 등)는 FIXED 유지
+  }
+}
+
+/**
+ * flex 컨테이너 프레임을 Auto Layout으로 변환.
+ * 자식은 이미 buildTree로 절대 좌표에 배치된 상태이며,
+ * DOM rect를 기준으로 방향·간격·패딩·정렬과 자식별 HUG/FILL/FIXED를 결정한다.
+ */
+function applyAutoLayout(frame: FrameNode, data: DomNodeData, built: BuiltChild[]): void {
+  const s = data.style;
+  const horizontal = !s.flexDirection.startsWith('column');
+  const w = frame.width;
+  const h = frame.height;
+
+  // ABSOLUTE 자식은 Auto Layout 적용 후 원래 좌표로 복원해야 함
+  const positions = new Map<SceneNode, { x: number; y: number }>();
+  for (const b of built) positions.set(b.node, { x: b.node.x, y: b.node.y });
+
+  const flow = built.filter((b) => !isOutOfFlow(b.data.style));
+  const absolute = built.filter((b) => isOutOfFlow(b.data.style));
+
+  // row-reverse / order 등으로 DOM 순서와 시각 순서가 다를 수 있음 → 실제 좌표로 정렬
+  const mainStart = (b: BuiltChild) => (horizontal ? b.data.rect.x : b.data.rect.y);
+  const mainEnd = (b: BuiltChild) =>
+    horizontal ? b.data.rect.x + b.data.rect.width : b.data.rect.y + b.data.rect.height;
+  const crossStart = (b: BuiltChild) => (horizontal ? b.data.rect.y : b.data.rect.x);
+  const wraps = horizontal && (s.flexWrap === 'wrap' || s.flexWrap === 'wrap-reverse');
+  const sorted = flow.slice().sort((a, b) =>
+    wraps && Math.abs(crossStart(a) - crossStart(b)) > 1
+      ? crossStart(a) - crossStart(b)
+      : mainStart(a) - mainStart(b));
+
+  // flow 자식 자리에 정렬된 순서를 채워 넣고, ABSOLUTE 자식은 z-순서 유지
+  const flowSet = new Set(flow.map((b) => b.node));
+  let next = 0;
+  const order = frame.children.map((c) => (flowSet.has(c) ? sorted[next++].node : c));
+  for (let i = 0; i < order.length; i++) frame.insertChild(i, order[i]);
+
+  frame.layoutMode = horizontal ? 'HORIZONTAL' : 'VERTICAL';
+  frame.primaryAxisSizingMode = 'FIXED';
+  frame.counterAxisSizingMode = 'FIXED';
+  frame.resize(w, h);
+
+  // CSS 패딩은 border 안쪽 기준 → Figma는 stroke를 레이아웃에서 제외하므로 border 폭을 더함
+  frame.paddingTop = s.paddingTop + s.borderTopWidth;
+  frame.paddingRight = s.paddingRight + s.borderRightWidth;
+  frame.paddingBottom = s.paddingBottom + s.borderBottomWidth;
+  frame.paddingLeft = s.paddingLeft + s.borderLeftWidth;
+
+  // 간격: CSS gap 기본, 단 margin 등으로 실제 간격이 균일하게 다르면 측정값 사용
+  let spacing = horizontal ? s.columnGap : s.rowGap;
+  if (!wraps && sorted.length > 1) {
+    const gaps: number[] = [];
+    for (let i = 1; i < sorted.length; i++) gaps.push(mainStart(sorted[i]) - mainEnd(sorted[i - 1]));
+    const min = Math.min(...gaps);
+    const max = Math.max(...gaps);
+    if (max - min <= 1 && min >= 0) spacing = Math.round((min + max) / 2);
+  }
+  frame.itemSpacing = Math.max(spacing, 0);
+
+  const justify = s.justifyContent;
+  if ((justify === 'space-around' || justify === 'space-evenly') && sorted.length > 0) {
+    // Figma에 없는 분배 방식 → 측정된 간격 + 첫 자식 오프셋을 패딩으로 근사
+    frame.primaryAxisAlignItems = 'MIN';
+    if (horizontal) frame.paddingLeft = Math.max(mainStart(sorted[0]), 0);
+    else frame.paddingTop = Math.max(mainStart(sorted[0]), 0);
+  } else {
+    frame.primaryAxisAlignItems = JUSTIFY_MAP[justify] ?? 'MIN';
+  }
+
+  const align = ALIGN_MAP[s.alignItems] ?? 'MIN';
+  frame.counterAxisAlignItems = align === 'BASELINE' && !horizontal ? 'MIN' : align;
+
+  if (wraps) {
+    frame.layoutWrap = 'WRAP';
+    frame.counterAxisSpacing = Math.max(s.rowGap, 0);
+  }
+
+  // 자식별 사이징
+  const innerCross = horizontal
+    ? h - frame.paddingTop - frame.paddingBottom
+    : w - frame.paddingLeft - frame.paddingRight;
+  for (const b of sorted) {
+    const cs = b.data.style;
+    const selfAlign = cs.alignSelf === 'auto' || cs.alignSelf === 'normal' || !cs.alignSelf
+      ? s.alignItems
+      : cs.alignSelf;
+    const crossSize = horizontal ? b.data.rect.height : b.data.rect.width;
+    // stretch는 교차축 크기가 auto일 때만 동작 → 실제로 컨테이너를 채운 경우만 FILL
+    const stretched = (selfAlign === 'stretch' || selfAlign === 'normal') &&
+      Math.abs(crossSize - innerCross) <= 1;
+    const mainMode = cs.flexGrow > 0 ? 'FILL' : 'HUG';
+    const crossMode = stretched ? 'FILL' : 'HUG';
+    trySizing(b.node, horizontal ? 'h' : 'v', mainMode);
+    trySizing(b.node, horizontal ? 'v' : 'h', crossMode);
+  }
+
+  for (const b of absolute) {
+    if (!('layoutPositioning' in b.node)) continue;
+    b.node.layoutPositioning = 'ABSOLUTE';
+    const p = positions.get(b.node)!;
+    b.node.x = p.x;
+    b.node.y = p.y;
+  }
+}
+
+// ─── Grid (display:grid → Figma Grid Auto Layout) ─────────────
+
+function isGridContainer(s: DomStyleData): boolean {
+  return s.display === 'grid' || s.display === 'inline-grid';
+}
+
+/**
+ * 해석된 px 트랙을 Figma 트랙 타입으로 변환.
+ * 트랙 합이 컨테이너를 꽉 채우면 fr 단위였을 가능성이 높으므로
+ * 균등 트랙은 모두 FLEX, 불균등이면 가장 큰 트랙만 FLEX("240px 1fr" 패턴)로 둔다.
+ */
+function toGridTrackSizes(tracks: number[], inner: number, gap: number): GridTrackSize[] {
+  const total = tracks.reduce((a, b) => a + b, 0) + gap * (tracks.length - 1);
+  const fills = Math.abs(total - inner) <= 1;
+  const max = Math.max(...tracks);
+  const equal = max - Math.min(...tracks) <= 1;
+  const largest = tracks.indexOf(max);
+  return tracks.map((size, i): GridTrackSize =>
+    fills && (equal || i === largest)
+      ? { type: 'FLEX', value: 1 }
+      : { type: 'FIXED', value: size });
+}
+
+/** 모든 flow 자식이 배치 정보를 갖고, 셀이 겹치거나 트랙 밖으로 나가지 않는지 검사 */
+function isGridPlacementValid(grid: DomGridData, flow: BuiltChild[]): boolean {
+  const occupied = new Set<string>();
+  for (const b of flow) {
+    const p = b.data.gridPlacement;
+    if (!p) return false;
+    if (p.row + p.rowSpan > grid.rows.length || p.column + p.columnSpan > grid.columns.length) return false;
+    for (let r = p.row; r < p.row + p.rowSpan; r++) {
+      for (let c = p.column; c < p.column + p.columnSpan; c++) {
+        const key = r + ':' + c;
+        if (occupied.has(key)) return false;
+        occupied.add(key);
+      }
+    }
+  }
+  return true;
+}
+
+/** 셀 안에서의 위치 → 그리드 자식 정렬 (셀을 채우면 FILL) */
+function gridChildAlign(offset: number, size: number, cell: number): 'FILL' | AxisAlign {
+  if (Math.abs(size - cell) <= 1) return 'FILL';
+  const free = cell - size;
+  if (offset <= 1) return 'MIN';
+  if (Math.abs(offset - free / 2) <= 1) return 'CENTER';
+  if (Math.abs(offset - free) <= 1) return 'MAX';
+  return 'MIN';
+}
+
+/**
+ * grid 컨테이너 프레임을 Figma Grid Auto Layout으로 변환.
+ * 셀 배치가 표현 불가능하거나(겹침, 배치 정보 없음) Grid API를 쓸 수 없으면
+ * 행 우선 순서의 wrap Auto Layout으로 대체한다.
+ */
+function applyGridLayout(frame: FrameNode, data: DomNodeData, built: BuiltChild[]): void {
+  const grid = data.grid;
+  const flow = built.filter((b) => !isOutOfFlow(b.data.style));
+  if (!grid || !isGridPlacementValid(grid, flow)) {
+    applyWrapLayout(frame, data, built);
+    return;
+  }
+
+  const s = data.style;
+  const w = frame.width;
+  const h = frame.height;
+  const positions = new Map<SceneNode, { x: number; y: number }>();
+  for (const b of built) positions.set(b.node, { x: b.node.x, y: b.node.y });
+
+  // appendChildAt은 빈 셀에만 배치 가능 → flow 자식을 잠시 페이지로 빼 두었다가 셀 지정 배치
+  const index = new Map<SceneNode, number>();
+  frame.children.forEach((c, i) => index.set(c, i));
+  for (const b of flow) figma.currentPage.appendChild(b.node);
+
+  try {
+    frame.layoutMode = 'GRID';
+  } catch {
+    // Grid Auto Layout 미지원 환경 → 원래 순서로 되돌린 뒤 wrap 대체
+    const restore = flow.slice().sort((a, b) => index.get(a.node)! - index.get(b.node)!);
+    for (const b of restore) frame.insertChild(Math.min(index.get(b.node)!, frame.children.length), b.node);
+    applyWrapLayout(frame, data, built);
+    return;
+  }
+  frame.layoutSizingHorizontal = 'FIXED';
+  frame.layoutSizingVertical = 'FIXED';
+  frame.resize(w, h);
+
+  // 남아 있는 absolute 자식이 셀을 차지하지 않도록 트랙 설정 전에 ABSOLUTE로 전환
+  // (flow 자식이 나중에 추가되므로 z-순서상 absolute 자식은 아래에 놓임)
+  for (const b of built) {
+    if (!isOutOfFlow(b.data.style) || !('layoutPositioning' in b.node)) continue;
+    b.node.layoutPositioning = 'ABSOLUTE';
+    const pos = positions.get(b.node)!;
+    b.node.x = pos.x;
+    b.node.y = pos.y;
+  }
+
+  frame.paddingTop = s.paddingTop + s.borderTopWidth;
+  frame.paddingRight = s.paddingRight + s.borderRightWidth;
+  frame.paddingBottom = s.paddingBottom + s.borderBottomWidth;
+  frame.paddingLeft = s.paddingLeft + s.borderLeftWidth;
+
+  frame.gridRowCount = grid.rows.length;
+  frame.gridColumnCount = grid.columns.length;
+  frame.gridRowGap = Math.max(s.rowGap, 0);
+  frame.gridColumnGap = Math.max(s.columnGap, 0);
+
+  const innerW = w - frame.paddingLeft - frame.paddingRight;
+  const colSizes = toGridTrackSizes(grid.columns, innerW, s.columnGap);
+  colSizes.forEach((t, i) => {
+    frame.gridColumnSizes[i].type = t.type;
+    if (t.value !== undefined) frame.gridColumnSizes[i].value = t.value;
+  });
+  grid.rows.forEach((size, i) => {
+    frame.gridRowSizes[i].type = 'FIXED';
+    frame.gridRowSizes[i].value = size;
+  });
+
+  // 트랙 시작 좌표 (자식 rect와 비교해 셀 내 정렬 판단)
+  const starts = (tracks: number[], origin: number, gap: number) => {
+    const out: number[] = [];
+    let pos = origin;
+    for (const t of tracks) {
+      out.push(pos);
+      pos += t + gap;
+    }
+    return out;
+  };
+  const colStarts = starts(grid.columns, frame.paddingLeft, s.columnGap);
+  const rowStarts = starts(grid.rows, frame.paddingTop, s.rowGap);
+  const spanSize = (tracks: number[], from: number, span: number, gap: number) =>
+    tracks.slice(from, from + span).reduce((a, b) => a + b, 0) + gap * (span - 1);
+
+  const sorted = flow.slice().sort((a, b) =>
+    a.data.gridPlacement!.row - b.data.gridPlacement!.row ||
+    a.data.gridPlacement!.column - b.data.gridPlacement!.column);
+  for (const b of sorted) {
+    const p = b.data.gridPlacement!;
+    frame.appendChildAt(b.node, p.row, p.column);
+    const child = b.node as SceneNode & GridChildrenMixin;
+    if (p.rowSpan > 1) child.gridRowSpan = p.rowSpan;
+    if (p.columnSpan > 1) child.gridColumnSpan = p.columnSpan;
+
+    const { rect } = b.data;
+    const cellW = spanSize(grid.columns, p.column, p.columnSpan, s.columnGap);
+    const cellH = spanSize(grid.rows, p.row, p.rowSpan, s.rowGap);
+    const hAlign = gridChildAlign(rect.x - colStarts[p.column], rect.width, cellW);
+    const vAlign = gridChildAlign(rect.y - rowStarts[p.row], rect.height, cellH);
+    if (hAlign === 'FILL') trySizing(b.node, 'h', 'FILL');
+    else child.gridChildHorizontalAlign = hAlign;
+    if (vAlign === 'FILL') trySizing(b.node, 'v', 'FILL');
+    else child.gridChildVerticalAlign = vAlign;
+  }
+}
+
+/** Grid로 표현할 수 없는 그리드 → 행 우선 순서의 가로 wrap Auto Layout */
+function applyWrapLayout(frame: FrameNode, data: DomNodeData, built: BuiltChild[]): void {
+  applyAutoLayout(frame, {
+    ...data,
+    style: {
+      ...data.style,
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      justifyContent: 'flex-start',
+      alignItems: 'flex-start',
+    },
+  }, built);
+}
+
+/**
+ * data-figma-autolayout은 전역 레이아웃 모드보다 우선한다.
+ * flex/grid 컨테이너는 CSS의 방향·그리드를 그대로 따르므로 horizontal/vertical 값은 켜기로만 쓰이고,
+ * flex/grid가 아닌 블록 요소에 지정하면 자식을 세로(또는 horizontal 값이면 가로)로 쌓는 Auto Layout.
+ */
+function applyLayout(frame: FrameNode, data: DomNodeData, built: BuiltChild[]): void {
+  const hint = data.figma?.autoLayout;
+  if (hint === 'off') return;
+  if (importOptions.layoutMode !== 'auto-layout' && hint === undefined) return;
+  if (isFlexContainer(data.style)) applyAutoLayout(frame, data, built);
+  else if (isGridContainer(data.style)) applyGridLayout(frame, data, built);
+  else if (hint !== undefined) {
+    const horizontal = hint === 'horizontal';
+    const style: DomStyleData = {
+      ...data.style,
+      display: 'flex',
+      flexDirection: horizontal ? 'row' : 'column',
+      flexWrap: 'nowrap',
+      justifyContent: 'flex-start',
+      alignItems: horizontal ? 'flex-start' : 'stretch',   // 블록 자식은 가로로 늘어남
+      rowGap: 0,
+      columnGap: 0,
+    };
+    applyAutoLayout(frame, { ...data, style }, built);
+  }
+}
+
+// ─── 텍스트 속성 / 말줄임 ─────────────────────────────────────
+
+const TEXT_CASE_MAP: Record<string, TextCase> = {
+  uppercase: 'UPPER',
+  lowercase: 'LOWER',
+  capitalize: 'TITLE',
+};
+
+/** 텍스트 노드와 텍스트 스타일이 공유하는 타이포그래피 값 (폰트 제외) */
+interface Typography {
+  fontSize: number;
+  lineHeight: LineHeight | null;      // null = Figma 기본(AUTO)
+  letterSpacing: LetterSpacing | null;
+  textDecoration: TextDecoration | null;
+  textCase: TextCase | null;
+}
+
+function cssTypography(s: DomStyleData): Typography {
+  const lh = parseFloat(s.lineHeight);
+  const ls = parseFloat(s.letterSpacing);
+  let textDecoration: TextDecoration | null = null;
+  // text-decoration: underline / line-through
+  if (s.textDecoration.includes('underline')) textDecoration = 'UNDERLINE';
+  else if (s.textDecoration.includes('line-through')) textDecoration = 'STRIKETHROUGH';
+  return {
+    fontSize: Math.max(s.fontSize, 1),
+    lineHeight: !isNaN(lh) && lh > 0 && s.lineHeight !== 'normal'
+      ? { value: Math.round(lh), unit: 'PIXELS' }
+      : null,
+    letterSpacing: !isNaN(ls) && s.letterSpacing !== 'normal' && s.letterSpacing !== '0px'
+      ? { value: ls, unit: 'PIXELS' }
+      : null,
+    textDecoration,
+    textCase: TEXT_CASE_MAP[s.textTransform] ?? null,
+  };
+}
+
+/**
+ * 브라우저에서 실제로 잘려 보이는 경우의 최대 줄 수 (0 = 잘리지 않음).
+ *   - text-overflow: ellipsis → overflow가 visible이 아니고 줄바꿈이 없을 때만 한 줄 말줄임
+ *   - -webkit-line-clamp: N → overflow가 visible이 아닐 때 N줄 말줄임
+ */
+function truncatedLines(s: DomStyleData): number {
+  if (s.overflow === 'visible') return 0;
+  if (s.lineClamp > 0) return s.lineClamp;
+  const noWrap = s.whiteSpace === 'nowrap' || s.whiteSpace === 'pre';
+  return s.textOverflow === 'ellipsis' && noWrap ? 1 : 0;
+}
+
+// ─── Figma 변수 (CSS 커스텀 속성 · Tailwind 테마) ─────────────
+// 토큰을 변수 컬렉션으로 만들고, 빌드 후 값이 같은 채우기·선·모서리·간격을 변수에 바인딩한다.
+// 계산된 스타일에는 어떤 var()에서 왔는지가 남지 않으므로 값으로 역매칭한다.
+
+const VARIABLE_COLLECTION_NAME = 'HTML Import Tokens';
+
+interface LengthVariable {
+  variable: Variable;
+  value: number;
+}
+
+// 이번 가져오기의 변수 (색상: paintKey(불투명) → 변수, 길이: 용도별 목록)
+let colorVariables = new Map<string, Variable>();
+let radiusVariables: LengthVariable[] = [];
+let spacingVariables: LengthVariable[] = [];
+
+const RADIUS_TOKEN = /radius|rounded/;
+const SPACING_TOKEN = /spacing|space|gap/;
+
+/** "--color-brand-500" → "color/brand-500" (첫 구간은 변수 그룹, Figma 이름에 못 쓰는 '.' 치환) */
+function variableName(cssName: string): string {
+  return cssName.replace(/^--/, '').replace('-', '/').replace(/[.{}]/g, '_');
+}
+
+async function findOrCreateCollection(): Promise<VariableCollection> {
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+  return collections.find((c) => c.name === VARIABLE_COLLECTION_NAME)
+    ?? figma.variables.createVariableCollection(VARIABLE_COLLECTION_NAME);
+}
+
+/**
+ * CSS 변수 → Figma 변수. 색상은 COLOR, 길이·숫자는 FLOAT (그림자·기타는 건너뜀).
+ * 같은 이름의 변수가 컬렉션에 있으면 값을 갱신해 재사용한다.
+ */
+async function createTokenVariables(tokens: CssVariable[]): Promise<void> {
+  colorVariables = new Map();
+  radiusVariables = [];
+  spacingVariables = [];
+
+  const usable = tokens.filter((t) => t.kind === 'color' || t.kind === 'length' || t.kind === 'number');
+  if (usable.length === 0) return;
+
+  const collection = await findOrCreateCollection();
+  const modeId = collection.defaultModeId;
+  const existing = new Map<string, Variable>();
+  for (const id of collection.variableIds) {
+    const v = await figma.variables.getVariableByIdAsync(id);
+    if (v) existing.set(v.name, v);
+  }
+
+  for (const token of usable) {
+    const name = variableName(token.name);
+    const type: VariableResolvedDataType = token.kind === 'color' ? 'COLOR' : 'FLOAT';
+    let variable = existing.get(name);
+    if (variable && variable.resolvedType !== type) continue;   // 같은 이름, 다른 타입 → 사용자 변수 보존
+
+    let value: VariableValue;
+    if (type === 'COLOR') {
+      const c = parseColor(token.value);
+      if (!c) continue;
+      value = { ...c.rgb, a: c.a };
+    } else {
+      value = parseFloat(token.value);
+      if (isNaN(value)) continue;
+    }
+
+    if (!variable) {
+      variable = figma.variables.createVariable(name, collection, type);
+      existing.set(name, variable);
+    }
+    variable.setValueForMode(modeId, value);
+    variable.setVariableCodeSyntax('WEB', `var(${token.name})`);
+
+    if (type === 'COLOR') {
+      // 반투명 토큰은 페인트 opacity와 겹쳐 이중 적용될 수 있어 바인딩 대상에서 제외
+      const paint = toSolidPaint(token.value);
+      if (paint && (paint.opacity ?? 1) >= 1 && !colorVariables.has(paintKey(paint))) {
+        colorVariables.set(paintKey(paint), variable);
+      }
+    } else if (token.kind === 'length') {
+      const px = value as number;
+      if (RADIUS_TOKEN.test(token.name)) {
+        variable.scopes = ['CORNER_RADIUS'];
+        radiusVariables.push({ variable, value: px });
+      } else if (SPACING_TOKEN.test(token.name)) {
+        variable.scopes = ['GAP'];
+        spacingVariables.push({ variable, value: px });
+      }
+    }
+  }
+}
+
+/** 불투명도와 무관하게 RGB가 같은 색상 변수에 페인트 바인딩 (bg-brand/50 → brand 변수 + 50%) */
+function bindPaint(paint: Paint): Paint {
+  if (paint.type !== 'SOLID') return paint;
+  const variable = colorVariables.get(paintKey({ ...paint, opacity: 1 }));
+  return variable ? figma.variables.setBoundVariableForPaint(paint, 'color', variable) : paint;
+}
+
+function bindPaints(paints: readonly Paint[]): { paints: Paint[]; changed: boolean } {
+  let changed = false;
+  const result = paints.map((p) => {
+    const bound = bindPaint(p);
+    if (bound !== p) changed = true;
+    return bound;
+  });
+  return { paints: result, changed };
+}
+
+function findLength(list: LengthVariable[], value: number): Variable | undefined {
+  return list.find((v) => Math.abs(v.value - value) < 0.01)?.variable;
+}
+
+const RADIUS_FIELDS = ['topLeftRadius', 'topRightRadius', 'bottomLeftRadius', 'bottomRightRadius'] as const;
+
+/** 빌드된 노드의 값 중 토큰과 일치하는 것을 변수에 바인딩 */
+function bindTokenVariables(root: FrameNode): void {
+  if (colorVariables.size === 0 && radiusVariables.length === 0 && spacingVariables.length === 0) return;
+
+  for (const node of [root, ...root.findAll()]) {
+    if (node.type === 'TEXT') {
+      for (const seg of node.getStyledTextSegments(['fills'])) {
+        const bound = bindPaints(seg.fills);
+        if (bound.changed) node.setRangeFills(seg.start, seg.end, bound.paints);
+      }
+    } else if ('fills' in node && node.fills !== figma.mixed) {
+      const bound = bindPaints(node.fills);
+      if (bound.changed) node.fills = bound.paints;
+    }
+    if ('strokes' in node) {
+      const bound = bindPaints(node.strokes);
+      if (bound.changed) node.strokes = bound.paints;
+    }
+
+    if ((node.type === 'FRAME' || node.type === 'RECTANGLE') && radiusVariables.length > 0) {
+      for (const field of RADIUS_FIELDS) {
+        const variable = node[field] > 0 ? findLength(radiusVariables, node[field]) : undefined;
+        if (variable) node.setBoundVariable(field, variable);
+      }
+    }
+
+    if (node.type === 'FRAME' && spacingVariables.length > 0) {
+      const gaps: [VariableBindableNodeField, number][] = [];
+      if (node.layoutMode === 'GRID') {
+        gaps.push(['gridRowGap', node.gridRowGap], ['gridColumnGap', node.gridColumnGap]);
+      } else if (node.layoutMode !== 'NONE') {
+        gaps.push(['itemSpacing', node.itemSpacing]);
+        if (node.layoutWrap === 'WRAP') gaps.push(['counterAxisSpacing', node.counterAxisSpacing ?? 0]);
+      }
+      for (const [field, value] of gaps) {
+        const variable = value > 0 ? findLength(spacingVariables, value) : undefined;
+        if (variable) node.setBoundVariable(field, variable);
+      }
+    }
+  }
+}
+
+// ─── 로컬 스타일 (색상·텍스트·효과) ───────────────────────────
+// 가져오기 전에 트리 전체의 값을 모아 스타일을 만들고, 빌드 후 값이 같은 노드에 연결한다.
+// 연결은 Figma 값(페인트·폰트·이펙트) 기준이라 필터·폰트 폴백으로 값이 바뀐 노드는 건너뛴다.
+
+interface StyleGroup<T> {
+  value: T;
+  hints: Map<string, number>;   // 이름 후보 → 등장 횟수
+}
+
+interface StyleGroups {
+  paints: Map<string, StyleGroup<SolidPaint>>;
+  texts: Map<string, StyleGroup<DomStyleData>>;
+  effects: Map<string, StyleGroup<Effect[]>>;
+}
+
+/**
+ * 이름과 값까지 정해 둔 로컬 스타일. 노드에 처음 연결될 때 만들거나 기존 스타일을 재사용하므로
+ * 연결되지 않은 값(여러 겹 채우기, 그라디언트 텍스트 등)은 파일에 스타일을 남기지 않는다.
+ */
+interface StyleSlot<S extends BaseStyle> {
+  existing: S | undefined;   // 같은 이름·값의 기존 로컬 스타일
+  create: () => S;
+  style: S | null;           // 연결에 쓴 스타일
+}
+
+// 이번 가져오기의 스타일 계획 (Figma 값 키 → 슬롯)
+let paintStyles = new Map<string, StyleSlot<PaintStyle>>();
+let textStyles = new Map<string, StyleSlot<TextStyle>>();
+let effectStyles = new Map<string, StyleSlot<EffectStyle>>();
+
+function resolveStyle<S extends BaseStyle>(slot: StyleSlot<S> | undefined): S | undefined {
+  if (!slot) return undefined;
+  if (!slot.style) slot.style = slot.existing ?? slot.create();
+  return slot.style;
+}
+
+/** 실제로 노드에 연결한 스타일 수 */
+function linkedStyleCount(): number {
+  return [...paintStyles.values(), ...textStyles.values(), ...effectStyles.values()]
+    .filter((slot) => slot.style).length;
+}
+
+const round3 = (v: number) => Math.round(v * 1000) / 1000;
+
+function paintKey(p: SolidPaint): string {
+  const { r, g, b } = p.color;
+  return [r, g, b, p.opacity ?? 1].map(round3).join(',');
+}
+
+function effectKey(effects: readonly Effect[]): string {
+  return effects.map((e) => {
+    if (e.type === 'DROP_SHADOW' || e.type === 'INNER_SHADOW') {
+      const { r, g, b, a } = e.color;
+      return [e.type, ...[r, g, b, a].map(round3), e.offset.x, e.offset.y, e.radius, e.spread ?? 0].join(',');
+    }
+    return `${e.type},${'radius' in e ? e.radius : ''}`;
+  }).join('|');
+}
+
+function typographyKey(
+  fontName: FontName, fontSize: number, lineHeight: LineHeight, letterSpacing: LetterSpacing,
+  textDecoration: TextDecoration, textCase: TextCase,
+): string {
+  return JSON.stringify([
+    fontName.family, fontName.style, round3(fontSize),
+    lineHeight.unit, lineHeight.unit === 'AUTO' ? 0 : round3(lineHeight.value),
+    letterSpacing.unit, round3(letterSpacing.value),
+    textDecoration, textCase,
+  ]);
+}
+
+// Tailwind 유틸리티 중 색상이 아닌 것 (bg-cover, text-center, border-2 …)
+const NON_COLOR_UTILITY: Record<'bg' | 'text' | 'border', RegExp> = {
+  bg: /^(none|auto|cover|contain|fixed|local|scroll|center|top|bottom|left|right|(no-)?repeat(-.*)?|clip-.*|origin-.*|blend-.*|gradient-.*|linear-.*|radial(-.*)?|conic(-.*)?)$/,
+  text: /^(xs|sm|base|lg|\d?xl|left|center|right|justify|start|end|wrap|nowrap|balance|pretty|ellipsis|clip)$/,
+  border: /^(\d+|[trblxyse](-.*)?|solid|dashed|dotted|double|hidden|none|collapse|separate|spacing-.*)$/,
+};
+
+const TW_TEXT_SIZE = /^text-(xs|sm|base|lg|\d?xl)$/;
+const TW_FONT_WEIGHT = /^font-(thin|extralight|light|normal|medium|semibold|bold|extrabold|black)$/;
+const TW_SHADOW = /^shadow(-(2xs|xs|sm|md|lg|xl|2xl|inner))?$/;
+
+/** 반응형·상태 변형(md:, hover:)과 임의값([#123]) 클래스를 뺀 클래스 목록 */
+function plainClasses(className: string | undefined): string[] {
+  return (className ?? '').split(/\s+/).filter((c) => c && !c.includes(':') && !c.includes('['));
+}
+
+/** "bg-blue-500/50" → "blue/500 50%" (팔레트 번호는 스타일 폴더로) */
+function tailwindColorHint(classes: string[], prefix: 'bg' | 'text' | 'border'): string | null {
+  for (const cls of classes) {
+    if (!cls.startsWith(`${prefix}-`)) continue;
+    const [token, alpha] = cls.slice(prefix.length + 1).split('/');
+    if (!/^[a-z]/.test(token) || NON_COLOR_UTILITY[prefix].test(token)) continue;
+    const name = token.replace(/-(\d{2,3})$/, '/$1');
+    return alpha ? `${name} ${alpha}%` : name;
+  }
+  return null;
+}
+
+/** "--color-blue-500" → "blue/500", "--brand-primary" → "brand-primary" */
+function variableStyleName(name: string): string {
+  return name.replace(/^--(colou?r-)?/, '').replace(/-(\d{2,3})$/, '/$1');
+}
+
+function hexName(p: SolidPaint): string {
+  const hex = [p.color.r, p.color.g, p.color.b]
+    .map((v) => Math.round(v * 255).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+  const opacity = p.opacity ?? 1;
+  return opacity < 1 ? `#${hex} ${Math.round(opacity * 100)}%` : `#${hex}`;
+}
+
+function addToGroup<T>(map: Map<string, StyleGroup<T>>, key: string, value: T, hint: string | null): void {
+  let group = map.get(key);
+  if (!group) {
+    group = { value, hints: new Map() };
+    map.set(key, group);
+  }
+  if (hint) group.hints.set(hint, (group.hints.get(hint) ?? 0) + 1);
+}
+
+function addPaint(groups: StyleGroups, css: string, hint: string | null): void {
+  const paint = toSolidPaint(css);
+  if (paint) addToGroup(groups.paints, paintKey(paint), paint, hint);
+}
+
+/** DomNodeData 트리에서 색상·타이포·그림자 값을 모은다. #text 노드는 부모 요소의 클래스를 힌트로 쓴다 */
+function collectStyleGroups(node: DomNodeData, groups: StyleGroups, parentClasses: string[]): void {
+  const s = node.style;
+  const classes = node.tagName === '#text' ? parentClasses : plainClasses(node.className);
+
+  if (s.backgroundColor && !s.backgroundClipText) addPaint(groups, s.backgroundColor, tailwindColorHint(classes, 'bg'));
+  for (const side of borderSides(s)) {
+    if (isVisibleSide(side)) addPaint(groups, side.color, tailwindColorHint(classes, 'border'));
+  }
+  const shadows = parseBoxShadow(s.boxShadow);
+  if (shadows.length > 0) {
+    addToGroup(groups.effects, effectKey(shadows), shadows, classes.find((c) => TW_SHADOW.test(c)) ?? null);
+  }
+
+  if (node.text && node.children.length === 0) {
+    if (!s.backgroundClipText) addPaint(groups, s.color, tailwindColorHint(classes, 'text'));
+    for (const seg of node.textSegments ?? []) {
+      if (seg.color) addPaint(groups, seg.color, null);
+    }
+    const size = classes.find((c) => TW_TEXT_SIZE.test(c));
+    const weight = classes.find((c) => TW_FONT_WEIGHT.test(c));
+    let hint: string | null = null;
+    if (size) hint = weight ? `${size.slice(5)} ${weight.slice(5)}` : size.slice(5);
+    else if (/^h[1-6]$/.test(node.tagName)) hint = node.tagName;
+    const textKey = JSON.stringify([s.fontFamily, s.fontWeight, s.fontStyle, cssTypography(s)]);
+    addToGroup(groups.texts, textKey, s, hint);
+    const textShadows = parseTextShadow(s.textShadow, s.color);
+    if (textShadows.length > 0) addToGroup(groups.effects, effectKey(textShadows), textShadows, null);
+  }
+
+  for (const child of node.children) collectStyleGroups(child, groups, classes);
+}
+
+/** 가장 자주 쓰인 힌트 */
+function topHint(hints: Map<string, number>): string | null {
+  let best: string | null = null;
+  let bestCount = 0;
+  for (const [hint, count] of hints) {
+    if (count > bestCount) {
+      best = hint;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/** 같은 이름이 이미 다른 값에 쓰였으면 " 2", " 3"… 을 붙인다 */
+function uniqueName(name: string, used: Set<string>): string {
+  let result = name;
+  for (let i = 2; used.has(result); i++) result = `${name} ${i}`;
+  used.add(result);
+  return result;
+}
+
+/**
+ * 트리에서 모은 값으로 로컬 스타일 계획 (생성은 linkLocalStyles에서 처음 연결할 때).
+ * 이름: CSS 변수 → Tailwind 클래스 → 생성 이름 순. 같은 이름·같은 값의 기존 로컬 스타일은 재사용.
+ */
+async function createLocalStyles(roots: DomNodeData[], variables: CssVariable[]): Promise<void> {
+  paintStyles = new Map();
+  textStyles = new Map();
+  effectStyles = new Map();
+
+  const groups: StyleGroups = { paints: new Map(), texts: new Map(), effects: new Map() };
+  for (const root of roots) collectStyleGroups(root, groups, []);
+
+  const colorVars = new Map<string, string>();
+  const shadowVars = new Map<string, string>();
+  for (const v of variables) {
+    if (v.kind === 'color') {
+      const paint = toSolidPaint(v.value);
+      if (paint && !colorVars.has(paintKey(paint))) colorVars.set(paintKey(paint), variableStyleName(v.name));
+    } else if (v.kind === 'shadow') {
+      const effects = parseBoxShadow(v.value);
+      if (effects.length > 0 && !shadowVars.has(effectKey(effects))) {
+        shadowVars.set(effectKey(effects), variableStyleName(v.name));
+      }
+    }
+  }
+
+  // 색상
+  const existingPaints = await figma.getLocalPaintStylesAsync();
+  const paintNames = new Set<string>();
+  for (const [key, group] of groups.paints) {
+    const name = uniqueName(colorVars.get(key) ?? topHint(group.hints) ?? hexName(group.value), paintNames);
+    const existing = existingPaints.find((st) => st.name === name && st.paints.length === 1
+      && st.paints[0].type === 'SOLID' && paintKey(st.paints[0]) === key);
+    paintStyles.set(key, {
+      existing,
+      create: () => {
+        const style = figma.createPaintStyle();
+        style.name = name;
+        style.paints = [bindPaint(group.value)];
+        return style;
+      },
+      style: null,
+    });
+  }
+
+  // 효과 (box-shadow / text-shadow)
+  const existingEffects = await figma.getLocalEffectStylesAsync();
+  const effectNames = new Set<string>();
+  let shadowIndex = 0;
+  for (const [key, group] of groups.effects) {
+    const hint = shadowVars.get(key) ?? topHint(group.hints);
+    const name = uniqueName(hint ?? `shadow/${++shadowIndex}`, effectNames);
+    const existing = existingEffects.find((st) => st.name === name && effectKey(st.effects) === key);
+    effectStyles.set(key, {
+      existing,
+      create: () => {
+        const style = figma.createEffectStyle();
+        style.name = name;
+        style.effects = group.value;
+        return style;
+      },
+      style: null,
+    });
+  }
+
+  // 텍스트 — 폰트는 텍스트 노드와 같은 규칙으로 로드해야 값이 일치한다
+  const existingTexts = await figma.getLocalTextStylesAsync();
+  const textNames = new Set<string>();
+  for (const group of groups.texts.values()) {
+    const s = group.value;
+    const italic = s.fontStyle === 'italic' || s.fontStyle === 'oblique';
+    const fontName = await loadBestFont(mapFontFamily(s.fontFamily), s.fontWeight, italic);
+    const typo = cssTypography(s);
+    const lineHeight: LineHeight = typo.lineHeight ?? { unit: 'AUTO' };
+    const letterSpacing: LetterSpacing = typo.letterSpacing ?? { value: 0, unit: 'PERCENT' };
+    const textDecoration = typo.textDecoration ?? 'NONE';
+    const textCase = typo.textCase ?? 'ORIGINAL';
+    const key = typographyKey(fontName, typo.fontSize, lineHeight, letterSpacing, textDecoration, textCase);
+    if (textStyles.has(key)) continue;   // 다른 CSS 폰트가 같은 Figma 폰트로 대체된 경우
+
+    const generated = `${fontName.family}/${round3(typo.fontSize)} ${fontName.style}`;
+    const name = uniqueName(topHint(group.hints) ?? generated, textNames);
+    const existing = existingTexts.find((st) => st.name === name && typographyKey(
+      st.fontName, st.fontSize, st.lineHeight, st.letterSpacing, st.textDecoration, st.textCase,
+    ) === key);
+    // 폰트는 위에서 이미 로드했으므로 나중에 동기적으로 만들 수 있다
+    textStyles.set(key, {
+      existing,
+      create: () => {
+        const style = figma.createTextStyle();
+        style.name = name;
+        style.fontName = fontName;
+        style.fontSize = typo.fontSize;
+        style.lineHeight = lineHeight;
+        style.letterSpacing = letterSpacing;
+        style.textDecoration = textDecoration;
+        style.textCase = textCase;
+        return style;
+      },
+      style: null,
+    });
+  }
+}
+
+function solidStyleFor(paints: readonly Paint[] | PluginAPI['mixed']): PaintStyle | undefined {
+  if (paints === figma.mixed || paints.length !== 1 || paints[0].type !== 'SOLID') return undefined;
+  return resolveStyle(paintStyles.get(paintKey(paints[0])));
+}
+
+/** 빌드된 노드의 채우기·선·이펙트와 텍스트 범위를 값이 같은 스타일에 연결 */
+async function linkLocalStyles(root: FrameNode): Promise<void> {
+  for (const node of [root, ...root.findAll()]) {
+    if (node.type === 'TEXT') {
+      const segments = node.getStyledTextSegments([
+        'fills', 'fontName', 'fontSize', 'lineHeight', 'letterSpacing', 'textDecoration', 'textCase',
+      ]);
+      for (const seg of segments) {
+        const fill = solidStyleFor(seg.fills);
+        if (fill) await node.setRangeFillStyleIdAsync(seg.start, seg.end, fill.id);
+        const text = resolveStyle(textStyles.get(typographyKey(
+          seg.fontName, seg.fontSize, seg.lineHeight, seg.letterSpacing, seg.textDecoration, seg.textCase,
+        )));
+        if (text) await node.setRangeTextStyleIdAsync(seg.start, seg.end, text.id);
+      }
+    } else if ('fills' in node) {
+      const fill = solidStyleFor(node.fills);
+      if (fill) await node.setFillStyleIdAsync(fill.id);
+    }
+    if ('strokes' in node) {
+      const stroke = solidStyleFor(node.strokes);
+      if (stroke) await node.setStrokeStyleIdAsync(stroke.id);
+    }
+    if ('effects' in node && node.effects.length > 0) {
+      const effect = resolveStyle(effectStyles.get(effectKey(node.effects)));
+      if (effect) await node.setEffectStyleIdAsync(effect.id);
+    }
+  }
+}
+
+// ─── 반복 하위 트리 → 컴포넌트 / 인스턴스 ──────────────────────
+// 태그·클래스·스타일·상대 배치가 같은 하위 트리를 묶는다 (텍스트·이미지 내용은 무시).
+// 첫 등장은 컴포넌트, 나머지는 인스턴스로 바꾸고 텍스트·채우기 차이를 오버라이드로 옮긴다.
+
+interface RepeatGroup {
+  component: ComponentNode | null;
+  failed: boolean;     // 첫 등장을 컴포넌트로 만들지 못함
+  explicit: boolean;   // data-figma-component로 지정한 그룹
+}
+
+let repeatGroups = new Map<DomNodeData, RepeatGroup>();
+let componentCount = 0;
+let instanceCount = 0;
+
+/** 내용(텍스트·이미지 url)을 뺀 스타일 키 */
+function structuralStyleKey(s: DomStyleData): string {
+  return JSON.stringify({ ...s, backgroundImage: s.backgroundImage.replace(/url\([^)]*\)/g, 'url()') });
+}
+
+/**
+ * 하위 트리 구조 서명을 정수 id로 인턴해 계산 (부모 서명은 자식 id만 참조 → 문자열이 커지지 않음).
+ * 자기 위치·그리드 칸은 서명에서 빼고(카드마다 다르므로) 부모가 자식 id 옆에 자식 배치로 넣는다.
+ * 텍스트 리프는 내용에 따라 크기가 달라지므로 크기도 비교하지 않는다.
+ */
+function computeSignatures(
+  node: DomNodeData,
+  ids: Map<string, number>,
+  out: Map<DomNodeData, { id: number; size: number }>,
+): { id: number; size: number } {
+  let size = 1;
+  const children: unknown[] = [];
+  for (const child of node.children) {
+    const sig = computeSignatures(child, ids, out);
+    children.push([sig.id, Math.round(child.rect.x), Math.round(child.rect.y), child.gridPlacement ?? null]);
+    size += sig.size;
+  }
+  const r = node.rect;
+  const isTextLeaf = !!node.text && node.children.length === 0;
+  const geometry = isTextLeaf ? [] : [Math.round(r.width), Math.round(r.height)];
+  const key = JSON.stringify([
+    node.tagName, node.className ?? '', node.visible, node.svgHtml ?? '', node.transform ?? null,
+    node.grid ?? null, geometry, structuralStyleKey(node.style), children,
+  ]);
+  let id = ids.get(key);
+  if (id === undefined) {
+    id = ids.size;
+    ids.set(key, id);
+  }
+  const sig = { id, size };
+  out.set(node, sig);
+  return sig;
+}
+
+/** data-figma-component 요소를 값별로 묶는다 (값이 없으면 요소마다 단독 컴포넌트) */
+function collectHintedComponents(node: DomNodeData, out: Map<string, DomNodeData[]>): void {
+  const key = node.figma?.component;
+  if (key !== undefined) {
+    const groupKey = key || `#${out.size}`;
+    out.set(groupKey, [...(out.get(groupKey) ?? []), node]);
+  }
+  for (const child of node.children) collectHintedComponents(child, out);
+}
+
+/**
+ * 컴포넌트로 만들 하위 트리 선정. data-figma-component 지정 요소를 먼저 묶고,
+ * auto가 있으면 위에서부터 내려가며 조건을 만족하는 가장 바깥 트리를 고른다.
+ * 고른 트리 내부는 다시 묶지 않고, 선정 후 실제 등장 수가 minRepeat 미만이면 제외.
+ */
+function planComponents(root: DomNodeData, auto: { minRepeat: number; minNodes: number } | null): void {
+  repeatGroups = new Map();
+  const hinted = new Map<string, DomNodeData[]>();
+  collectHintedComponents(root, hinted);
+  for (const members of hinted.values()) {
+    const group: RepeatGroup = { component: null, failed: false, explicit: true };
+    for (const member of members) if (member !== root) repeatGroups.set(member, group);
+  }
+  if (!auto) return;
+  const { minRepeat, minNodes } = auto;
+
+  const sigs = new Map<DomNodeData, { id: number; size: number }>();
+  computeSignatures(root, new Map(), sigs);
+
+  const totals = new Map<number, number>();
+  for (const { id } of sigs.values()) totals.set(id, (totals.get(id) ?? 0) + 1);
+
+  const chosen = new Map<number, DomNodeData[]>();
+  const visit = (node: DomNodeData) => {
+    if (repeatGroups.has(node)) return;
+    const sig = sigs.get(node)!;
+    if (node !== root && sig.size >= minNodes && (totals.get(sig.id) ?? 0) >= minRepeat) {
+      const list = chosen.get(sig.id) ?? [];
+      list.push(node);
+      chosen.set(sig.id, list);
+      return;
+    }
+    node.children.forEach(visit);
+  };
+  visit(root);
+
+  for (const members of chosen.values()) {
+    if (members.length < minRepeat) continue;
+    const group: RepeatGroup = { component: null, failed: false, explicit: false };
+    for (const member of members) repeatGroups.set(member, group);
+  }
+}
+
+/** 두 노드 트리의 타입·자식 수가 모두 같은지 (인스턴스에 오버라이드를 옮길 수 있는지) */
+function sameStructure(a: SceneNode, b: SceneNode): boolean {
+  if (a.type !== b.type) return false;
+  const ac = 'children' in a ? a.children : [];
+  const bc = 'children' in b ? b.children : [];
+  return ac.length === bc.length && ac.every((child, i) => sameStructure(child, bc[i]));
+}
+
+/** 빌드된 노드(source)의 내용 차이를 인스턴스 쪽 노드(target)에 오버라이드로 적용 */
+function copyOverrides(target: SceneNode, source: SceneNode): void {
+  if (target.visible !== source.visible) target.visible = source.visible;
+
+  if (target.type === 'TEXT' && source.type === 'TEXT') {
+    // 폰트는 source 빌드 때 이미 로드됨
+    if (target.characters !== source.characters) target.characters = source.characters;
+    const segments = source.getStyledTextSegments(['fontName', 'fontSize', 'fills', 'textDecoration', 'letterSpacing']);
+    for (const seg of segments) {
+      target.setRangeFontName(seg.start, seg.end, seg.fontName);
+      target.setRangeFontSize(seg.start, seg.end, seg.fontSize);
+      target.setRangeFills(seg.start, seg.end, seg.fills);
+      target.setRangeTextDecoration(seg.start, seg.end, seg.textDecoration);
+      target.setRangeLetterSpacing(seg.start, seg.end, seg.letterSpacing);
+    }
+    if (target.textAutoResize !== 'WIDTH_AND_HEIGHT' && Math.abs(target.width - source.width) > 0.5) {
+      target.resize(source.width, target.height);
+    }
+  } else if ('fills' in target && 'fills' in source && JSON.stringify(target.fills) !== JSON.stringify(source.fills)) {
+    target.fills = source.fills;   // 이미지·배경 url 차이
+  }
+
+  if ('children' in target && 'children' in source) {
+    target.children.forEach((child, i) => copyOverrides(child, source.children[i]));
+  }
+}
+
+/**
+ * 빌드가 끝난 반복 하위 트리를 컴포넌트/인스턴스로 교체.
+ * 첫 등장 → createComponentFromNode, 이후 → 인스턴스 생성 후 빌드된 트리를 제거.
+ * 구조가 어긋나면(하이라이트 유무 등) 빌드된 트리를 그대로 둔다.
+ */
+function componentize(node: DomNodeData, created: SceneNode): SceneNode {
+  const group = repeatGroups.get(node);
+  if (!group || group.failed) return created;
+
+  if (!group.component) {
+    try {
+      group.component = figma.createComponentFromNode(created);
+    } catch (err) {
+      console.error('[html-importer] component error:', err);
+      group.failed = true;
+      return created;
+    }
+    componentCount++;
+    return group.component;
+  }
+
+  const instance = group.component.createInstance();
+  if (!sameStructure(instance, created)) {
+    instance.remove();
+    if (group.explicit) warn(`data-figma-component="${node.figma?.component}": 구조가 다른 요소는 인스턴스로 만들지 않음`);
+    return created;
+  }
+  const parent = created.parent as ChildrenMixin;
+  parent.insertChild(parent.children.indexOf(created), instance);
+  instance.name = created.name;
+  if (Math.abs(instance.width - created.width) > 0.5 || Math.abs(instance.height - created.height) > 0.5) {
+    instance.resize(created.width, created.height);
+  }
+  instance.relativeTransform = created.relativeTransform;
+  try {
+    copyOverrides(instance, created);
+  } catch (err) {
+    console.error('[html-importer] instance override error:', err);
+    instance.remove();
+    return created;
+  }
+  // 폰트 대체 리포트가 지워질 빌드 노드 대신 인스턴스 안쪽 레이어를 가리키게
+  remapFontSubstitutions(pairTextIds(created, instance));
+  created.remove();
+  instanceCount++;
+  return instance;
+}
+
+// ─── data-figma-flatten ──────────────────────────────────────
+
+/**
+ * 하위 트리를 하나의 벡터로 병합하거나, 레이어 박스 그대로 PNG로 내보내 이미지 사각형으로 교체.
+ * 이미지는 박스 기준으로 잘리므로 박스 밖으로 번지는 그림자는 포함되지 않는다.
+ * 실패하면 경고를 남기고 원래 트리를 유지한다.
+ */
+async function flattenNode(node: SceneNode, mode: 'vector' | 'image'): Promise<SceneNode> {
+  const parent = node.parent as BaseNode & ChildrenMixin;
+  const index = parent.children.indexOf(node);
+  // 병합되면 안쪽 텍스트 레이어가 사라지므로 성공하면 폰트 대체 리포트에서 뺀다
+  const texts = pairTextIds(node, null);
+  try {
+    if (mode === 'vector') {
+      const vector = figma.flatten([node], parent, index);
+      vector.name = node.name;
+      remapFontSubstitutions(texts);
+      return vector;
+    }
+    const bytes = await node.exportAsync({
+      format: 'PNG',
+      constraint: { type: 'SCALE', value: 2 },
+      useAbsoluteBounds: true,
+    });
+    const rect = figma.createRectangle();
+    rect.name = node.name;
+    rect.resize(Math.max(node.width, 0.01), Math.max(node.height, 0.01));
+    rect.x = node.x;
+    rect.y = node.y;
+    rect.fills = [{ type: 'IMAGE', imageHash: figma.createImage(bytes).hash, scaleMode: 'FILL' }];
+    rect.visible = node.visible;
+    parent.insertChild(index, rect);
+    node.remove();
+    remapFontSubstitutions(texts);
+    return rect;
+  } catch (err) {
+    console.error('[html-importer] flatten error:', err);
+    warn(`data-figma-flatten: "${node.name}" 병합 실패 — 원래 레이어 유지`);
+    return node;
+  }
+}
+
+// ─── 레이어 이름 ──────────────────────────────────────────────
+
+// 레이아웃·간격·색상 등 유틸리티 클래스 (Tailwind·Bootstrap) — 이름에 쓰지 않음
+const UTILITY_PREFIX = new RegExp('^-?(' + [
+  '[mp][trblxyse]?', 'w', 'h', 'size', 'min-w', 'min-h', 'max-w', 'max-h', 'gap(-[xy])?', 'space-[xy]',
+  'inset(-[xy])?', 'top', 'right', 'bottom', 'left', 'start', 'end', 'z', 'order', 'col', 'row',
+  'grid-cols', 'grid-rows', 'grid-flow', 'auto-cols', 'auto-rows', 'basis', 'grow', 'shrink', 'flex',
+  'items', 'justify', 'content', 'self', 'place', 'text', 'font', 'leading', 'tracking', 'line-clamp',
+  'decoration', 'underline-offset', 'indent', 'align', 'whitespace', 'break', 'bg', 'from', 'via', 'to',
+  'border', 'divide', 'outline', 'ring', 'rounded', 'shadow', 'opacity', 'mix-blend', 'blur',
+  'brightness', 'contrast', 'grayscale', 'hue-rotate', 'invert', 'saturate', 'sepia', 'drop-shadow',
+  'backdrop', 'transition', 'duration', 'ease', 'delay', 'animate', 'scale', 'rotate', 'translate',
+  'skew', 'origin', 'cursor', 'select', 'pointer-events', 'resize', 'scroll', 'snap', 'touch',
+  'will-change', 'fill', 'stroke', 'object', 'aspect', 'columns', 'overflow', 'overscroll', 'list',
+  'appearance', 'accent', 'caret', 'd', 'display', 'float', 'clearfix',
+].join('|') + ')-');
+
+const UTILITY_WORDS = new Set([
+  'flex', 'grid', 'block', 'inline', 'inline-block', 'inline-flex', 'inline-grid', 'hidden', 'contents',
+  'table', 'relative', 'absolute', 'fixed', 'sticky', 'static', 'container', 'truncate', 'uppercase',
+  'lowercase', 'capitalize', 'italic', 'underline', 'line-through', 'no-underline', 'sr-only',
+  'not-sr-only', 'visible', 'invisible', 'grow', 'shrink', 'shadow', 'rounded', 'border', 'transition',
+  'transform', 'antialiased', 'subpixel-antialiased', 'ring', 'outline', 'isolate', 'group', 'peer',
+  'prose', 'clearfix',
+]);
+
+/** 유틸리티 클래스를 뺀 의미 있는 클래스 (반응형·상태 변형, 임의값 포함 클래스 제외) */
+function meaningfulClasses(className: string | undefined): string[] {
+  return (className ?? '').split(/\s+/).filter((c) =>
+    c && !/[:[\]/!]/.test(c) && !UTILITY_WORDS.has(c) && !UTILITY_PREFIX.test(c));
+}
+
+// 레이블이 없을 때 텍스트 내용으로 이름을 붙이는 상호작용 요소
+const LABELLED_TAGS = new Set(['button', 'a', 'label', 'summary', 'option']);
+const LABELLED_ROLES = new Set(['button', 'link', 'tab', 'menuitem', 'option', 'checkbox', 'radio', 'switch']);
+
+const MAX_LABEL_LENGTH = 32;
+
+/** 하위 텍스트 리프를 이어 붙인 내용 (짧은 레이블용) */
+function textContentOf(node: DomNodeData): string {
+  if (node.text) return node.text;
+  return node.children.map(textContentOf).filter(Boolean).join(' ');
+}
+
+function labelOf(node: DomNodeData): string | null {
+  let label = node.ariaLabel;
+  if (!label && (LABELLED_TAGS.has(node.tagName) || (node.role && LABELLED_ROLES.has(node.role)))) {
+    label = textContentOf(node);
+  }
+  label = label?.replace(/\s+/g, ' ').trim();
+  if (!label) return null;
+  return label.length > MAX_LABEL_LENGTH ? `${label.slice(0, MAX_LABEL_LENGTH - 1)}…` : label;
+}
+
+/** BEM 클래스: 요소(__)가 있는 클래스 우선, 수식어(--)만 붙은 클래스는 블록 클래스보다 뒤 */
+function bemClass(classes: string[]): string | null {
+  return classes.find((c) => c.includes('__') && !c.includes('--'))
+    ?? classes.find((c) => !c.includes('--'))
+    ?? classes[0]
+    ?? null;
+}
+
+/** 선택한 규칙에 따른 레이어 이름 */
+function layerName(node: DomNodeData, naming: LayerNaming): string {
+  const tag = node.tagName;
+  if (naming === 'tag') return tag;
+
+  const classes = meaningfulClasses(node.className);
+  const id = node.elementId;
+  if (naming === 'id-first') {
+    if (id) return `#${id}`;
+    return classes.length > 0 ? `${tag}.${classes[0]}` : tag;
+  }
+  if (naming === 'bem') {
+    return bemClass(classes) ?? (id ? `#${id}` : tag);
+  }
+
+  // semantic: 명시된 role이 태그보다 의미가 분명하다 (<div role="dialog"> → dialog)
+  const base = node.role ?? tag;
+  const qualifier = classes.length > 0 ? `.${classes[0]}` : id ? `#${id}` : '';
+  const label = labelOf(node);
+  return label ? `${base}${qualifier} "${label}"` : `${base}${qualifier}`;
+}
+
+// ─── 재귀 노드 빌더 ───────────────────────────────────────────
+
+let frameCount = 0;
+let textCount = 0;
+// 변환하지 못한 CSS 기능 경고 (메시지 → 발생 횟수), 완료 시 UI에 보고
+let warnings = new Map<string, number>();
+let importOptions: ImportOptions = {
+  layoutMode: 'absolute',
+  layerNaming: 'semantic',
+  wrapInSection: true,
+  updateSelection: false,
+  createStyles: false,
+  createVariables: false,
+  createComponents: false,
+  componentMinRepeat: 3,
+  componentMinNodes: 4,
+};
+let imageAssets: Record<string, ImageAsset> = {};
+
+function warn(message: string): void {
+  warnings.set(message, (warnings.get(message) ?? 0) + 1);
+}
+
+/** 리포트용 경고 목록 — 반복된 경고는 횟수 표시 */
+function reportedWarnings(): string[] {
+  return Array.from(warnings, ([message, count]) => (count > 1 ? `${message} (×${count})` : message));
+}
+
+/** DOM 노드 하나를 Figma 노드로 만들어 parent에 추가하고, 생성된 노드를 반환 */
+async function buildTree(node: DomNodeData, parent: FrameNode): Promise<SceneNode | null> {
+  let created = await createNode(node, parent);
+  // 하위 트리까지 완성된 뒤 적용해야 하는 후처리
+  // (clip-text 그라디언트·filter는 자식 텍스트 색상에도 작용, transform의 균등 scale은 자식까지 비례 축소)
+  if (created) {
+    // createNode가 붙인 기본 이름(태그)만 바꾼다 — 텍스트·플레이스홀더 이름은 유지
+    if (node.figma?.name) created.name = node.figma.name;
+    else if (created.name === node.tagName) created.name = layerName(node, importOptions.layerNaming);
+    if (created.type === 'FRAME') applyBorderDecorations(created, node.style);
+    if (node.style.backgroundClipText) {
+      const { rect } = node;
+      const origin = { x: parent.absoluteTransform[0][2] + rect.x, y: parent.absoluteTransform[1][2] + rect.y };
+      applyBackgroundClipText(created, node.style, origin, Math.max(rect.width, 1), Math.max(rect.height, 1));
+    }
+    applyFilters(created, node.style);
+    if (node.figma?.flatten) created = await flattenNode(created, node.figma.flatten);
+    if (node.transform) applyCssTransform(created, node.transform);
+    if (repeatGroups.size > 0) created = componentize(node, created);
+    created.setPluginData(IMPORT_KEY, importKeys.get(node) ?? '');
+    tagHtmlElement(created, node);
+  }
+  return created;
+}
+
+async function createNode(node: DomNodeData, parent: FrameNode): Promise<SceneNode | null> {
+  const { rect, style, tagName, text, textSegments, children, visible, imageUrl } = node;
+  const w = Math.max(rect.width, 1);
+  const h = Math.max(rect.height, 1);
+
+  // ── 텍스트 리프 노드 ──────────────────────────────
+  if (text && children.length === 0) {
+    const family = mapFontFamily(style.fontFamily);
+    const isItalic = style.fontStyle === 'italic' || style.fontStyle === 'oblique';
+    const fontName = await loadBestFont(family, style.fontWeight, isItalic);
+    const maxLines = truncatedLines(style);
+
+    // 텍스트 노드 공통 생성 헬퍼
+    // fixedWidth > 0 → HEIGHT 모드(고정 폭, text-align 동작)
+    // fixedWidth = 0 → WIDTH_AND_HEIGHT 모드(inline 요소 등)
+    const makeText = (tx: number, ty: number, fixedWidth = 0): TextNode => {
+      const t = figma.createText();
+      t.fontName = fontName;
+      const typo = cssTypography(style);
+      t.fontSize = typo.fontSize;
+      t.characters = text!;
+      const textPaint = toSolidPaint(style.color);
+      if (textPaint) t.fills = [textPaint];
+      const alignMap: Record<string, 'LEFT' | 'CENTER' | 'RIGHT' | 'JUSTIFIED'> = {
+        left: 'LEFT', center: 'CENTER', right: 'RIGHT', justify: 'JUSTIFIED',
+      };
+      t.textAlignHorizontal = alignMap[style.textAlign] ?? 'LEFT';
+      if (typo.lineHeight) t.lineHeight = typo.lineHeight;
+      if (typo.letterSpacing) t.letterSpacing = typo.letterSpacing;
+      if (typo.textDecoration) t.textDecoration = typo.textDecoration;
+      if (typo.textCase) t.textCase = typo.textCase;
+      const shadows = parseTextShadow(style.textShadow, style.color);
+      if (shadows.length > 0) t.effects = shadows;
+      if (maxLines > 0) {
+        // 말줄임: 박스 폭에 고정하고 N줄 이후를 …로 자름
+        t.textAutoResize = 'HEIGHT';
+        t.resize(Math.max(fixedWidth || w - style.paddingLeft - style.paddingRight, 1), 20);
+        t.textTruncation = 'ENDING';
+        t.maxLines = maxLines;
+      } else if (fixedWidth > 0) {
+        // 블록 요소: 고정 폭 + HEIGHT 자동 → text-align(center/right 등) 동작
+        t.textAutoResize = 'HEIGHT';
+        t.resize(Math.max(fixedWidth, 10), 20);
+      } else {
+        // 인라인 요소: Figma가 폰트 메트릭으로 폭/높이 자동 결정
+        t.textAutoResize = 'WIDTH_AND_HEIGHT';
+      }
+      t.x = tx;
+      t.y = ty;
+      return t;
+    };
+
+    // 세그먼트별 범위 스타일 적용 헬퍼 (폰트·크기·색상·장식·자간) + 문자 체계 폴백 + 폰트 대체 기록
+    const applySegmentStyles = async (t: TextNode): Promise<void> => {
+      const requests: FontRequest[] = [{
+        start: 0, end: t.characters.length, family: style.fontFamily, weight: style.fontWeight, italic: isItalic,
+      }];
+      let offset = 0;
+      for (const seg of textSegments ?? []) {
+        const len = seg.text.length;
+        if (len > 0 && offset + len <= t.characters.length) {
+          const end = offset + len;
+          if (seg.fontFamily !== undefined || seg.fontWeight !== undefined || seg.italic !== undefined) {
+            const segFamily = seg.fontFamily !== undefined ? mapFontFamily(seg.fontFamily) : family;
+            const segWeight = seg.fontWeight ?? style.fontWeight;
+            const segItalic = seg.italic ?? isItalic;
+            const segFont = await loadBestFont(segFamily, segWeight, segItalic);
+            t.setRangeFontName(offset, end, segFont);
+            requests.push({
+              start: offset, end, family: seg.fontFamily ?? style.fontFamily, weight: segWeight, italic: segItalic,
+            });
+          }
+          if (seg.fontSize !== undefined) t.setRangeFontSize(offset, end, Math.max(seg.fontSize, 1));
+          if (seg.color) {
+            const segPaint = toSolidPaint(seg.color);
+            if (segPaint) t.setRangeFills(offset, end, [segPaint]);
+          }
+          if (seg.textDecoration) {
+            t.setRangeTextDecoration(offset, end, seg.textDecoration === 'underline' ? 'UNDERLINE' : 'STRIKETHROUGH');
+          }
+          if (seg.letterSpacing !== undefined) {
+            t.setRangeLetterSpacing(offset, end, { value: seg.letterSpacing, unit: 'PIXELS' });
+          }
+        }
+        offset += len;
+      }
+      // 세그먼트 폰트까지 정해진 뒤 글자 단위 문자 체계 폴백 — 대체 리포트는 최종 폰트 기준
+      const fallbacks = await applyScriptFallbacks(t);
+      noteFontUses(t, requests, fallbacks);
+    };
+
+    // 인라인 배경(<mark>, <code>) → 텍스트 바로 아래 사각형. (ox, oy)는 텍스트 요소 박스의 위치
+    const addHighlights = (container: FrameNode, t: TextNode, ox: number, oy: number): RectangleNode[] => {
+      const highlights = new Set((textSegments ?? []).map((seg) => seg.highlight).filter((hl) => hl !== undefined));
+      const rects: RectangleNode[] = [];
+      for (const hl of highlights) {
+        const paint = toSolidPaint(hl.color);
+        if (!paint) continue;
+        for (const r of hl.rects) {
+          const box = figma.createRectangle();
+          box.name = 'highlight';
+          box.resize(Math.max(r.width, 1), Math.max(r.height, 1));
+          box.x = ox + r.x;
+          box.y = oy + r.y;
+          box.fills = [paint];
+          if (hl.radius > 0) box.cornerRadius = hl.radius;
+          container.insertChild(container.children.indexOf(t), box);
+          rects.push(box);
+        }
+      }
+      return rects;
+    };
+
+    // 부모에 붙인 텍스트 리프: 하이라이트가 있으면 함께 그룹으로 묶어 하나의 노드로 반환
+    const finishLeaf = (t: TextNode): SceneNode => {
+      parent.appendChild(t);
+      textCount++;
+      const rects = addHighlights(parent, t, rect.x, rect.y);
+      let result: SceneNode = t;
+      if (rects.length > 0) {
+        result = figma.group([...rects, t], parent);
+        result.name = tagName;
+      }
+      if (!visible) result.visible = false;
+      return result;
+    };
+
+    // 배지/버튼: 테두리 또는 배경이 있으면 Frame으로 감싸 박스 스타일 재현
+    const hasBorder = hasVisibleBorder(style) || hasOutline(style);
+    const hasBg = !style.backgroundClipText && (!isTransparent(style.backgroundColor) ||
+      (style.backgroundImage !== '' && style.backgroundImage !== 'none'));
+
+    // 한 줄 텍스트 판단: 높이가 폰트 크기의 3.5배 미만이면 줄바꿈 금지
+    // (text-base(16px) + h-[50px] 버튼 등이 올바르게 단일 행으로 처리됨)
+    const isSingleLine = h < style.fontSize * 3.5;
+
+    // HEIGHT(고정 폭) vs WIDTH_AND_HEIGHT(자동 폭) 판단 헬퍼
+    const calcFixedWidth = (containerW: number): number => {
+      const estMin = style.fontSize * (text?.length ?? 1);
+      return containerW > estMin * 1.5 ? containerW : 0;
+    };
+
+    if (hasBorder || hasBg) {
+      const frame = figma.createFrame();
+      frame.name = tagName;
+      frame.resize(w, h);
+      frame.x = rect.x;
+      frame.y = rect.y;
+      applyFrameStyle(frame, style);
+
+      if (isSingleLine) {
+        // 한 줄 텍스트: WIDTH_AND_HEIGHT → 줄바꿈 절대 방지
+        const t = makeText(style.paddingLeft, style.paddingTop, 0);
+        await applySegmentStyles(t);
+        // 가로 정렬
+        const isFlex = style.display.includes('flex');
+        if (isFlex && style.justifyContent === 'center') {
+          t.x = Math.round((w - t.width) / 2);
+        } else if (style.textAlign === 'center') {
+          t.x = Math.round((w - t.width) / 2);
+        }
+        // 세로 정렬
+        if (isFlex && style.alignItems === 'center') {
+          t.y = Math.round((h - t.height) / 2);
+        } else if (tagName === 'button' || tagName === 'a') {
+          t.y = Math.round((h - t.height) / 2);
+        }
+        frame.appendChild(t);
+        addHighlights(frame, t, 0, 0);
+      } else {
+        // 여러 줄 가능: 고정 폭
+        const textAreaW = Math.max(w - style.paddingLeft - style.paddingRight, 10);
+        const t = makeText(style.paddingLeft, style.paddingTop, textAreaW);
+        await applySegmentStyles(t);
+        // 세로 정렬 (flex center 또는 button/a 태그)
+        const isFlex2 = style.display.includes('flex');
+        if (isFlex2 && style.alignItems === 'center') {
+          t.y = Math.round((h - t.height) / 2);
+        } else if (tagName === 'button' || tagName === 'a') {
+          t.y = Math.round((h - t.height) / 2);
+        }
+        frame.appendChild(t);
+        addHighlights(frame, t, 0, 0);
+      }
+
+      if (!visible) frame.visible = false;
+      parent.appendChild(frame);
+      frameCount++;
+      textCount++;
+      return frame;
+    }
+
+    // 일반 텍스트 리프
+    // center/right 정렬:
+    // ① WIDTH_AND_HEIGHT 모드로 Figma 실제 폰트 폭을 얻어 줄바꿈 없이 렌더
+    // ② DOM 중심점(center) 또는 DOM 오른쪽 끝(right)을 기준으로 x 재계산
+    if (style.textAlign === 'center' || style.textAlign === 'right') {
+      const t = makeText(0, rect.y, 0);
+      await applySegmentStyles(t);
+      if (style.textAlign === 'center') {
+        const domCenter = rect.x + rect.width / 2;
+        t.x = Math.round(domCenter - t.width / 2);
+      } else {
+        t.x = Math.round(rect.x + rect.width - t.width);
+      }
+      return finishLeaf(t);
+    }
+
+    // left/start 정렬: DOM 위치 그대로
+    if (isSingleLine) {
+      // 한 줄 텍스트: WIDTH_AND_HEIGHT → 줄바꿈 방지
+      const t = makeText(rect.x, rect.y, 0);
+      await applySegmentStyles(t);
+      return finishLeaf(t);
+    }
+
+    const isBlockDisplay = /^(block|flex|grid|list-item|table)/.test(style.display);
+    const fixedW = isBlockDisplay ? calcFixedWidth(w) : 0;
+    const t = makeText(rect.x, rect.y, fixedW);
+    await applySegmentStyles(t);
+    return finishLeaf(t);
+  }
+
+  // ── SVG → createNodeFromSvg로 실제 벡터 재현 ────
+  if (tagName === 'svg') {
+    if (node.svgHtml) {
+      try {
+        const svgFrame = figma.createNodeFromSvg(node.svgHtml);
+        svgFrame.name = 'svg-icon';
+        svgFrame.fills = [];          // 배경 투명
+        // SVG HTML에 이미 정확한 픽셀 width/height가 주입되어 있으므로
+        // resize는 실질적 no-op이지만, 부모 좌표계 정합성을 위해 수행
+        if (Math.abs(svgFrame.width - w) > 1 || Math.abs(svgFrame.height - h) > 1) {
+          svgFrame.resize(w, h);
+        }
+        svgFrame.x = rect.x;
+        svgFrame.y = rect.y;
+        if (style.opacity < 1) svgFrame.opacity = style.opacity;
+        if (!visible) svgFrame.visible = false;
+        parent.appendChild(svgFrame);
+        frameCount++;
+        return svgFrame;
+      } catch {
+        // 파싱 실패 시 아래 fallback으로 진행
+      }
+    }
+    // Fallback: 회색 사각형 플레이스홀더
+    const r = figma.createRectangle();
+    r.name = 'svg-placeholder';
+    r.resize(w, h);
+    r.fills = [{ type: 'SOLID', color: { r: 0.7, g: 0.7, b: 0.7 }, opacity: 0.4 }];
+    if (style.opacity < 1) r.opacity = style.opacity;
+    r.x = rect.x;
+    r.y = rect.y;
+    if (!visible) r.visible = false;
+    parent.appendChild(r);
+    return r;
+  }
+
+  // ── 이미지 (<img>) → IMAGE 채우기, 실패 시 사유를 이름에 남긴 플레이스홀더 ──
+  if (tagName === 'img') {
+    const imgRect = figma.createRectangle();
+    imgRect.resize(w, h);
+    const asset = imageUrl ? imageAssets[imageUrl] : undefined;
+    let reason = !imageUrl ? 'no src' : asset?.error ?? 'not loaded';
+    if (asset?.bytes) {
+      const image = createImageFromAsset(asset);
+      if (image) {
+        const iw = asset.width ?? w;
+        const ih = asset.height ?? h;
+        imgRect.fills = [
+          buildImagePaint(image.hash, iw, ih, w, h, objectFitLayout(style, iw, ih, w, h), asset.pixelWidth ?? iw),
+        ];
+        reason = '';
+      } else {
+        reason = 'unsupported image';
+      }
+    }
+    if (reason) {
+      imgRect.name = `img (placeholder: ${reason})`;
+      imgRect.fills = [{ type: 'SOLID', color: { r: 0.88, g: 0.9, b: 0.92 } }];
+    } else {
+      imgRect.name = 'img';
+    }
+    applyCornerRadius(imgRect, style);
+    if (style.opacity < 1) imgRect.opacity = style.opacity;
+    imgRect.x = rect.x;
+    imgRect.y = rect.y;
+    if (!visible) imgRect.visible = false;
+    parent.appendChild(imgRect);
+    frameCount++;
+    return imgRect;
+  }
+
+  // ── Frame (div, section, header, ... 모든 박스 요소) ────────
+  // 자식 extent가 반올림으로 부모를 초과할 수 있음 → clipsContent 시 잘림 방지
+  let frameW = w;
+  let frameH = h;
+  for (const child of children) {
+    frameH = Math.max(frameH, child.rect.y + child.rect.height);
+    frameW = Math.max(frameW, child.rect.x + child.rect.width);
+  }
+
+  const frame = figma.createFrame();
+  frame.resize(frameW, frameH);
+  frame.x = rect.x;
+  frame.y = rect.y;
+
+  applyFrameStyle(frame, style);
+
+  // 자식 재귀 처리
+  const built: BuiltChild[] = [];
+  for (const child of children) {
+    try {
+      const childNode = await buildTree(child, frame);
+      if (childNode) built.push({ node: childNode, data: child });
+    } catch (err) {
+      console.error('[html-importer] buildTree error:', err);
+    }
+  }
+
+  applyLayout(frame, node, built);
+
+  if (!visible) frame.visible = false;
+  parent.appendChild(frame);
+  frame.name = tagName;
+
+  frameCount++;
+  return frame;
+}
+
+// ─── 다시 가져오기 (제자리 업데이트) ──────────────────────────
+// 가져온 노드마다 형제 안에서 안정적인 키(data-figma-name → id → 태그·클래스 + 내용 지문)를 pluginData로 남긴다.
+// 키는 부모 안에서만 비교하므로 트리 경로가 곧 DOM 경로다.
+// 업데이트 모드에서는 새로 빌드한 트리를 기존 트리와 키로 맞춰 보고, 같은 키는 속성만 갱신해
+// 노드를 유지(주석·커넥터 보존), 새 키는 추가, 사라진 키는 제거한다.
+// 키가 없는 노드는 디자이너가 직접 추가한 레이어로 보고 건드리지 않는다.
+
+const IMPORT_KEY = 'importKey';
+const IMPORT_ROOT = 'importRoot';   // 값: 렌더 너비(px)
+
+let importKeys = new Map<DomNodeData, string>();
+let updateStats = { updated: 0, added: 0, removed: 0 };
+
+/** 하위 트리의 텍스트·이미지 url로 만든 짧은 해시 (FNV-1a) */
+function contentFingerprint(node: DomNodeData): string {
+  let hash = 0x811c9dc5;
+  const visit = (n: DomNodeData) => {
+    for (const part of [n.text ?? '', n.imageUrl ?? '']) {
+      for (let i = 0; i < part.length; i++) hash = Math.imul(hash ^ part.charCodeAt(i), 0x01000193);
+    }
+    n.children.forEach(visit);
+  };
+  visit(node);
+  return (hash >>> 0).toString(36);
+}
+
+/** 키에서 내용 지문·중복 순번을 뗀 부분 ("div.card|1x2y3z~1" → "div.card") */
+function importKeyBase(key: string): string {
+  return key.split(/[|~]/)[0];
+}
+
+/**
+ * 자식마다 형제 안에서 유일한 키를 붙인다.
+ * 이름·id가 없으면 태그·클래스 + 내용 지문 — 앞에 형제가 끼어들어도 다른 형제의 키가 밀리지 않는다.
+ * 내용이 바뀐 요소는 updateChildren이 같은 태그·클래스끼리 순서대로 짝짓는다.
+ */
+function assignImportKeys(node: DomNodeData): void {
+  const used = new Map<string, number>();
+  for (const child of node.children) {
+    const base = [child.tagName, ...plainClasses(child.className)].join('.');
+    let key = child.figma?.name ? `name:${child.figma.name}`
+      : child.elementId ? `#${child.elementId}`
+      : `${base}|${contentFingerprint(child)}`;
+    const dup = used.get(key) ?? 0;
+    used.set(key, dup + 1);
+    if (dup > 0) key = `${key}~${dup}`;
+    importKeys.set(child, key);
+    assignImportKeys(child);
+  }
+}
+
+/** 빌더가 덧붙인 보조 레이어(테두리 선·하이라이트·outline 등)에 타입별 순번 키 부여 */
+function tagGeneratedNodes(node: SceneNode): void {
+  if (!('children' in node) || node.type === 'INSTANCE') return;
+  const typeIndex = new Map<string, number>();
+  for (const child of node.children) {
+    if (!child.getPluginData(IMPORT_KEY)) {
+      const index = typeIndex.get(child.type) ?? 0;
+      typeIndex.set(child.type, index + 1);
+      child.setPluginData(IMPORT_KEY, `auto:${child.type}:${index}`);
+    }
+    tagGeneratedNodes(child);
+  }
+}
+
+/** 선택에서 업데이트 대상 루트 프레임 찾기 (루트 내부 레이어나 루트를 담은 섹션을 골라도 됨) */
+function findImportRoots(selection: readonly SceneNode[]): FrameNode[] {
+  const roots = new Set<FrameNode>();
+  for (const node of selection) {
+    if (node.type === 'SECTION') {
+      for (const child of node.children) {
+        if (child.type === 'FRAME' && child.getPluginData(IMPORT_ROOT)) roots.add(child);
+      }
+    }
+    let current: BaseNode | null = node;
+    while (current && current.type !== 'PAGE') {
+      if (current.type === 'FRAME' && current.getPluginData(IMPORT_ROOT)) {
+        roots.add(current);
+        break;
+      }
+      current = current.parent;
+    }
+  }
+  return Array.from(roots);
+}
+
+// 속성만 갱신해 유지할 수 있는 노드 타입 (벡터는 통째로 교체)
+const UPDATABLE_TYPES = new Set<NodeType>(['FRAME', 'GROUP', 'TEXT', 'RECTANGLE', 'LINE', 'ELLIPSE', 'COMPONENT']);
+
+/**
+ * 기존 노드를 유지한 채 갱신할 수 있는지.
+ * 업데이트 빌드에는 컴포넌트가 없으므로(일반 프레임) 기존 메인 컴포넌트는 프레임 값으로 갱신하고,
+ * 인스턴스는 자식 구조가 같을 때만 오버라이드로 갱신한다.
+ */
+function canUpdateInPlace(old: SceneNode, next: SceneNode): boolean {
+  if (old.type === next.type) return UPDATABLE_TYPES.has(old.type);
+  if (next.type !== 'FRAME') return false;
+  if (old.type === 'COMPONENT') return true;
+  return old.type === 'INSTANCE' && old.children.length === next.children.length
+    && old.children.every((child, i) => sameStructure(child, next.children[i]));
+}
+
+/** 기존 텍스트의 현재 폰트 로드 — 글자뿐 아니라 정렬·자동 크기 같은 속성을 바꿀 때도 필요 */
+async function loadCurrentFonts(texts: readonly TextNode[]): Promise<void> {
+  const fonts = texts.flatMap((t) => (t.characters.length > 0
+    ? t.getRangeAllFontNames(0, t.characters.length)
+    : [t.fontName as FontName]));
+  await Promise.all(fonts.map((f) => figma.loadFontAsync(f)));
+}
+
+/** 기존 인스턴스를 새로 빌드한 프레임의 크기·내용으로 갱신 (메인 컴포넌트 연결 유지) */
+async function updateInstance(target: InstanceNode, source: FrameNode): Promise<void> {
+  // 오버라이드로 바꿀 텍스트의 현재 폰트를 먼저 로드
+  await loadCurrentFonts(target.findAllWithCriteria({ types: ['TEXT'] }));
+
+  if (Math.abs(target.width - source.width) > 0.5 || Math.abs(target.height - source.height) > 0.5) {
+    target.resize(source.width, source.height);
+  }
+  copyOverrides(target, source);
+  remapFontSubstitutions(pairTextIds(source, target));   // 빌드 트리는 업데이트 후 지워진다
+  for (const key of [HTML_TAG, HTML_ID]) target.setPluginData(key, source.getPluginData(key));
+}
+
+// 복사하는 속성을 모두 가진 노드 형태 — 속성 이름과 값 타입을 타입 검사에 맡기기 위한 것
+// (실제 노드에 있는지는 복사할 때 'in'으로 확인)
+type CopyableNode = BaseFrameMixin & AutoLayoutChildrenMixin & GridChildrenMixin
+  & Pick<TextNode, 'textAlignHorizontal' | 'textAlignVertical' | 'textAutoResize' | 'textTruncation' | 'maxLines'>;
+
+// 노드 자체 속성 — 순서 중요 (layoutMode가 패딩·간격보다 먼저)
+const SELF_PROPS = [
+  'name', 'visible', 'opacity', 'blendMode', 'isMask', 'effects', 'fills', 'strokes', 'strokeWeight',
+  'strokeAlign', 'strokeTopWeight', 'strokeRightWeight', 'strokeBottomWeight', 'strokeLeftWeight',
+  'dashPattern', 'strokeCap', 'strokeJoin', 'topLeftRadius', 'topRightRadius', 'bottomLeftRadius',
+  'bottomRightRadius', 'clipsContent', 'layoutMode', 'layoutWrap', 'primaryAxisSizingMode',
+  'counterAxisSizingMode', 'primaryAxisAlignItems', 'counterAxisAlignItems', 'counterAxisAlignContent',
+  'paddingLeft', 'paddingRight', 'paddingTop', 'paddingBottom', 'itemSpacing', 'counterAxisSpacing',
+  'gridRowCount', 'gridColumnCount', 'gridRowGap', 'gridColumnGap', 'gridRowSizes', 'gridColumnSizes',
+  'textAlignHorizontal', 'textAlignVertical', 'textAutoResize', 'textTruncation', 'maxLines',
+] as const satisfies readonly (keyof CopyableNode)[];
+
+// 부모 안에서의 배치 속성 — 부모에 넣은 뒤 적용
+const CHILD_PROPS = [
+  'layoutPositioning', 'layoutAlign', 'layoutGrow', 'constraints', 'layoutSizingHorizontal',
+  'layoutSizingVertical', 'gridRowAnchorIndex', 'gridColumnAnchorIndex', 'gridRowSpan', 'gridColumnSpan',
+  'gridChildHorizontalAlign', 'gridChildVerticalAlign',
+] as const satisfies readonly (keyof CopyableNode)[];
+
+type CopiedProps<K extends keyof CopyableNode> = Partial<Pick<CopyableNode, K>>;
+
+function readProps<K extends keyof CopyableNode>(node: SceneNode, props: readonly K[]): CopiedProps<K> {
+  const values: CopiedProps<K> = {};
+  for (const prop of props) {
+    if (!(prop in node)) continue;
+    const value = (node as unknown as CopyableNode)[prop];
+    if (value !== undefined && value !== figma.mixed) values[prop] = value;
+  }
+  return values;
+}
+
+/** 값이 다른 속성만 쓴다. 쓰기에 실패한 속성은 건너뛰지 않고 리포트에 남긴다 */
+function writeProps<K extends keyof CopyableNode>(node: SceneNode, values: CopiedProps<K>): void {
+  const target = node as unknown as CopyableNode;
+  for (const prop of Object.keys(values) as K[]) {
+    const value = values[prop];
+    if (!(prop in node) || value === undefined || JSON.stringify(target[prop]) === JSON.stringify(value)) continue;
+    try {
+      target[prop] = value;
+    } catch (err) {
+      console.warn(`[html-importer] ${node.name}.${prop}:`, err);
+      warn(`업데이트: ${prop} 속성을 갱신하지 못한 레이어가 있음`);
+    }
+  }
+}
+
+async function copyStyleIds(target: SceneNode, source: SceneNode): Promise<void> {
+  if (source.type === 'TEXT') return;   // 텍스트는 범위별로 복사
+  if ('fillStyleId' in source && 'fillStyleId' in target && typeof source.fillStyleId === 'string'
+    && source.fillStyleId && source.fillStyleId !== target.fillStyleId) {
+    await target.setFillStyleIdAsync(source.fillStyleId);
+  }
+  if ('strokeStyleId' in source && 'strokeStyleId' in target && source.strokeStyleId
+    && source.strokeStyleId !== target.strokeStyleId) {
+    await target.setStrokeStyleIdAsync(source.strokeStyleId);
+  }
+  if ('effectStyleId' in source && 'effectStyleId' in target && source.effectStyleId
+    && source.effectStyleId !== target.effectStyleId) {
+    await target.setEffectStyleIdAsync(source.effectStyleId);
+  }
+}
+
+/** 모서리·간격 등 노드 필드 변수 바인딩 (채우기 바인딩은 페인트에 담겨 fills와 함께 복사됨) */
+async function copyBoundVariables(target: SceneNode, source: SceneNode): Promise<void> {
+  if (!('setBoundVariable' in target) || !source.boundVariables) return;
+  for (const [field, alias] of Object.entries(source.boundVariables)) {
+    if (!alias || Array.isArray(alias)) continue;
+    const variable = await figma.variables.getVariableByIdAsync((alias as VariableAlias).id);
+    if (!variable) continue;
+    try {
+      target.setBoundVariable(field as VariableBindableNodeField, variable);
+    } catch {
+      // 대상 노드에 없는 필드
+    }
+  }
+}
+
+/** target의 현재 폰트는 updateNode가 속성 복사 전에 로드해 둔다 */
+async function updateText(target: TextNode, source: TextNode): Promise<void> {
+  if (target.characters !== source.characters) target.characters = source.characters;
+  const segments = source.getStyledTextSegments([
+    'fontName', 'fontSize', 'fills', 'textDecoration', 'letterSpacing', 'lineHeight', 'textCase',
+    'fillStyleId', 'textStyleId',
+  ]);
+  for (const seg of segments) {
+    target.setRangeFontName(seg.start, seg.end, seg.fontName);
+    target.setRangeFontSize(seg.start, seg.end, seg.fontSize);
+    target.setRangeFills(seg.start, seg.end, seg.fills);
+    target.setRangeTextDecoration(seg.start, seg.end, seg.textDecoration);
+    target.setRangeLetterSpacing(seg.start, seg.end, seg.letterSpacing);
+    target.setRangeLineHeight(seg.start, seg.end, seg.lineHeight);
+    target.setRangeTextCase(seg.start, seg.end, seg.textCase);
+    if (seg.fillStyleId) await target.setRangeFillStyleIdAsync(seg.start, seg.end, seg.fillStyleId);
+    if (seg.textStyleId) await target.setRangeTextStyleIdAsync(seg.start, seg.end, seg.textStyleId);
+  }
+}
+
+/** 새로 빌드한 source의 값으로 기존 target을 갱신 (루트는 이름·위치 유지) */
+async function updateNode(target: SceneNode, source: SceneNode, isRoot: boolean): Promise<void> {
+  const sized = target.type !== 'GROUP' && target.type !== 'TEXT' && 'resize' in target;
+  // Auto Layout 프레임의 resize는 사이징 모드를 FIXED로 바꾸므로 속성 복사보다 먼저
+  if (sized && (Math.abs(target.width - source.width) > 0.01 || Math.abs(target.height - source.height) > 0.01)) {
+    try {
+      target.resize(Math.max(source.width, 0.01), target.type === 'LINE' ? 0 : Math.max(source.height, 0.01));
+    } catch {
+      // 크기를 바꿀 수 없는 상태
+    }
+  }
+
+  // 텍스트 속성(정렬·자동 크기·말줄임)은 현재 폰트가 로드돼야 쓸 수 있다
+  if (target.type === 'TEXT') await loadCurrentFonts([target]);
+  const values = readProps(source, SELF_PROPS);
+  if (isRoot) delete values.name;
+  writeProps(target, values);
+
+  if (target.type === 'TEXT' && source.type === 'TEXT') {
+    await updateText(target, source);
+    remapFontSubstitutions(new Map([[source.id, target.id]]));   // 빌드 트리는 업데이트 후 지워진다
+    if (target.textAutoResize === 'HEIGHT' && Math.abs(target.width - source.width) > 0.01) {
+      target.resize(source.width, target.height);
+    } else if (target.textAutoResize === 'NONE' || target.textAutoResize === 'TRUNCATE') {
+      target.resize(source.width, source.height);
+    }
+  }
+  await copyStyleIds(target, source);
+  await copyBoundVariables(target, source);
+  for (const key of [HTML_TAG, HTML_ID]) target.setPluginData(key, source.getPluginData(key));
+
+  if ('children' in target && 'children' in source) await updateChildren(target, source);
+}
+
+/** 교체되는 노드의 Dev Mode 주석을 새 노드로 옮긴다 */
+function carryAnnotations(from: SceneNode, to: SceneNode): void {
+  if (!('annotations' in from) || !('annotations' in to) || from.annotations.length === 0) return;
+  try {
+    to.annotations = from.annotations;
+  } catch {
+    // 주석을 지원하지 않는 노드
+  }
+}
+
+async function updateChildren(target: SceneNode & ChildrenMixin, source: SceneNode & ChildrenMixin): Promise<void> {
+  const existing = new Map<string, SceneNode>();
+  for (const child of target.children) {
+    const key = child.getPluginData(IMPORT_KEY);
+    if (key) existing.set(key, child);
+  }
+
+  // 1) 같은 키  2) 남은 것끼리 같은 태그·클래스를 순서대로 (내용만 바뀐 요소)
+  const incoming = source.children.slice();
+  const matches = new Map<SceneNode, SceneNode>();
+  for (const next of incoming) {
+    const key = next.getPluginData(IMPORT_KEY);
+    const old = key ? existing.get(key) : undefined;
+    if (!old) continue;
+    matches.set(next, old);
+    existing.delete(key);
+  }
+  const leftovers = new Map<string, string[]>();
+  for (const key of existing.keys()) {
+    const list = leftovers.get(importKeyBase(key)) ?? [];
+    list.push(key);
+    leftovers.set(importKeyBase(key), list);
+  }
+  for (const next of incoming) {
+    const key = next.getPluginData(IMPORT_KEY);
+    const oldKey = key && !matches.has(next) ? leftovers.get(importKeyBase(key))?.shift() : undefined;
+    if (!oldKey) continue;
+    matches.set(next, existing.get(oldKey)!);
+    existing.delete(oldKey);
+  }
+
+  // 새 자식 순서대로 기존 노드를 재사용하거나 새 노드를 옮겨 온다.
+  // 키 없는(직접 추가한) 레이어는 그 뒤에 남는다.
+  for (let i = 0; i < incoming.length; i++) {
+    const next = incoming[i];
+    const layout = readProps(next, CHILD_PROPS);
+    const transform = next.relativeTransform;
+    const old = matches.get(next);
+
+    let placed: SceneNode = next;
+    if (old && canUpdateInPlace(old, next)) {
+      if (old.type === 'INSTANCE') await updateInstance(old, next as FrameNode);
+      else await updateNode(old, next, false);
+      placed = old;
+      updateStats.updated++;
+    } else {
+      if (old) {
+        carryAnnotations(old, next);
+        old.remove();
+        updateStats.removed++;
+      }
+      updateStats.added++;
+    }
+    target.insertChild(i, placed);
+    writeProps(placed, layout);
+    try {
+      placed.relativeTransform = transform;
+    } catch {
+      // Auto Layout 흐름 안의 자식은 위치를 부모가 정함
+    }
+  }
+
+  for (const stale of existing.values()) {
+    stale.remove();
+    updateStats.removed++;
+  }
+}
+
+// ─── 루트 프레임 / 브레이크포인트 배치 ─────────────────────────
+
+const BREAKPOINT_GAP = 120;
+const SECTION_PADDING = 80;
+
+/** 직렬화된 루트 하나를 페이지 최상위 프레임으로 생성 (위치는 arrangeRootFrames가 정함) */
+async function buildRootFrame(data: DomNodeData, name: string, width: number): Promise<FrameNode> {
+  importKeys = new Map();
+  assignImportKeys(data);
+
+  const rootFrame = figma.createFrame();
+  rootFrame.name = name;
+  rootFrame.setPluginData(IMPORT_ROOT, String(width));
+  tagHtmlElement(rootFrame, data);
+  rootFrame.resize(Math.max(data.rect.width, 1), Math.max(data.rect.height, 1));
+
+  // 루트 스타일 적용
+  applyFrameStyle(rootFrame, data.style);
+  figma.currentPage.appendChild(rootFrame);
+
+  // 자식 노드 재귀 생성
+  const built: BuiltChild[] = [];
+  for (const child of data.children) {
+    try {
+      const childNode = await buildTree(child, rootFrame);
+      if (childNode) built.push({ node: childNode, data: child });
+    } catch (err) {
+      console.error('[html-importer] child error:', err);
+    }
+  }
+
+  applyLayout(rootFrame, data, built);
+  applyBorderDecorations(rootFrame, data.style);
+  applyFilters(rootFrame, data.style);
+  bindTokenVariables(rootFrame);
+  if (importOptions.createStyles) await linkLocalStyles(rootFrame);
+  tagGeneratedNodes(rootFrame);
+  return rootFrame;
+}
+
+/**
+ * 루트 프레임들을 위쪽 정렬로 좌→우 나란히 놓고 묶음 전체를 뷰포트 중앙에 배치.
+ * 여러 개이고 wrapInSection이면 섹션으로 감싼다. 선택·줌할 노드를 반환.
+ */
+function arrangeRootFrames(frames: FrameNode[], sectionName: string): SceneNode[] {
+  const totalWidth = frames.reduce((sum, f) => sum + f.width, 0) + BREAKPOINT_GAP * (frames.length - 1);
+  const maxHeight = Math.max(...frames.map((f) => f.height));
+  const left = Math.round(figma.viewport.center.x - totalWidth / 2);
+  const top = Math.round(figma.viewport.center.y - maxHeight / 2);
+
+  if (frames.length > 1 && importOptions.wrapInSection) {
+    const section = figma.createSection();
+    section.name = sectionName;
+    figma.currentPage.appendChild(section);
+    section.x = left - SECTION_PADDING;
+    section.y = top - SECTION_PADDING;
+    section.resizeWithoutConstraints(totalWidth + SECTION_PADDING * 2, maxHeight + SECTION_PADDING * 2);
+    // 섹션 자식 좌표는 섹션 기준
+    let x = SECTION_PADDING;
+    for (const frame of frames) {
+      section.appendChild(frame);
+      frame.x = x;
+      frame.y = SECTION_PADDING;
+      x += frame.width + BREAKPOINT_GAP;
+    }
+    return [section];
+  }
+
+  let x = left;
+  for (const frame of frames) {
+    frame.x = x;
+    frame.y = top;
+    x += frame.width + BREAKPOINT_GAP;
+  }
+  return frames;
+}
+
+// ─── HTML 내보내기 (Figma → HTML/CSS) ─────────────────────────
+// 선택한 레이어를 DomStyleData와 대칭인 CSS로 되돌린다.
+//   프레임·사각형·그룹 → div (Auto Layout은 flex/grid, 그 외 자식은 absolute)
+//   텍스트             → 가장 긴 구간 스타일을 요소에, 다른 범위 스타일은 span으로
+//   벡터·<svg> 프레임   → exportAsync(SVG_STRING) 인라인 SVG
+// 가져오기 때 저장한 태그·id를 쓰므로, 가져온 프레임을 내보내면 원본에 가까운 마크업이 된다.
+
+const HTML_TAG = 'htmlTag';
+const HTML_ID = 'htmlId';
+
+/** 선언 순서를 유지하는 CSS 속성 → 값 */
+type Declarations = Map<string, string>;
+
+interface ExportParent {
+  layout: 'NONE' | 'HORIZONTAL' | 'VERTICAL' | 'GRID';
+  origin: Vec;        // 자식 좌표 기준점 — 그룹 자식은 그룹의 부모 좌표계를 쓰므로 그룹 위치를 뺀다
+  box: Rect | null;   // 부모 absoluteBoundingBox (회전된 SVG 배치용)
+}
+
+// 자식을 가질 수 없거나 문서 구조용인 태그 → div로 내보냄 (<img>·<svg>는 별도 처리)
+const CONTAINER_TAG_FALLBACK = new Set([
+  'html', 'head', 'body', 'img', 'svg', 'input', 'textarea', 'select', 'option', 'video', 'audio',
+  'canvas', 'iframe', 'embed', 'object', 'picture', 'br', 'hr',
+]);
+
+// 브라우저 기본 여백이 있는 태그 — 내보낸 박스가 Figma 크기와 같도록 초기화
+const UA_MARGIN_TAGS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'figure', 'blockquote', 'dl', 'dd', 'pre']);
+const UA_LIST_TAGS = new Set(['ul', 'ol', 'menu']);
+
+const VECTOR_TYPES = new Set<NodeType>(['VECTOR', 'STAR', 'POLYGON', 'BOOLEAN_OPERATION']);
+const BOX_TYPES = new Set<NodeType>([
+  'FRAME', 'GROUP', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE', 'SECTION', 'RECTANGLE', 'ELLIPSE',
+]);
+
+const BLEND_MODE_CSS: Partial<Record<BlendMode, string>> = {
+  MULTIPLY: 'multiply', SCREEN: 'screen', OVERLAY: 'overlay', DARKEN: 'darken', LIGHTEN: 'lighten',
+  COLOR_DODGE: 'color-dodge', COLOR_BURN: 'color-burn', HARD_LIGHT: 'hard-light', SOFT_LIGHT: 'soft-light',
+  DIFFERENCE: 'difference', EXCLUSION: 'exclusion', HUE: 'hue', SATURATION: 'saturation', COLOR: 'color',
+  LUMINOSITY: 'luminosity',
+};
+
+// 범위 스타일 span이 요소 스타일을 되돌릴 때 쓰는 기본값
+const TEXT_RESET: Record<string, string> = {
+  'font-style': 'normal',
+  'text-decoration': 'none',
+  'text-transform': 'none',
+  'font-variant': 'normal',
+  'letter-spacing': 'normal',
+};
+
+let exportMode: HtmlExportMode = 'inline';
+let exportRules = new Map<string, { name: string; block: string[] }>();   // 이름 힌트 + 선언 → 클래스
+let exportClassNames = new Set<string>();
+let exportImageUris = new Map<string, string>();   // 이미지 해시 → data URI
+let exportedCount = 0;
+
+function round(v: number, digits = 2): number {
+  const k = 10 ** digits;
+  return Math.round(v * k) / k;
+}
+
+function px(v: number): string {
+  const r = round(v);
+  return r === 0 ? '0' : `${r}px`;
+}
+
+function cssColor(c: RGB, alpha: number): string {
+  const [r, g, b] = [c.r, c.g, c.b].map((v) => Math.round(v * 255));
+  if (alpha >= 0.999) return `#${[r, g, b].map((v) => v.toString(16).padStart(2, '0')).join('')}`;
+  return `rgba(${r}, ${g}, ${b}, ${round(alpha, 3)})`;
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function visiblePaints(paints: readonly Paint[] | PluginAPI['mixed']): Paint[] {
+  return paints === figma.mixed ? [] : (paints as readonly Paint[]).filter((p) => p.visible !== false);
+}
+
+function invertTransform(t: Transform): Transform {
+  const [[a, b, tx], [c, d, ty]] = t;
+  const det = a * d - b * c || 1e-6;
+  return [
+    [d / det, -b / det, (b * ty - d * tx) / det],
+    [-c / det, a / det, (c * tx - a * ty) / det],
+  ];
+}
+
+function isIdentityMatrix([[a, b], [c, d]]: Transform): boolean {
+  return Math.abs(a - 1) < 1e-3 && Math.abs(b) < 1e-3 && Math.abs(c) < 1e-3 && Math.abs(d - 1) < 1e-3;
+}
+
+/** CSS 각도: 0deg = 위쪽, 시계 방향 */
+function cssAngle(v: Vec): number {
+  const deg = (Math.atan2(v.x, -v.y) * 180) / Math.PI;
+  return round((deg + 360) % 360, 1);
+}
+
+/**
+ * Figma 그라디언트 → CSS 그라디언트 (gradientTransformFromHandles의 역변환).
+ * linear는 CSS 그라디언트 선(박스 중심을 지나는 각도 방향 선)에 핸들을 투영해 스톱 위치를 다시 잰다.
+ * diamond는 radial로 근사한다.
+ */
+function gradientCss(paint: GradientPaint, w: number, h: number): string {
+  const inv = invertTransform(paint.gradientTransform);
+  const at = (gx: number, gy: number): Vec => ({
+    x: (inv[0][0] * gx + inv[0][1] * gy + inv[0][2]) * w,
+    y: (inv[1][0] * gx + inv[1][1] * gy + inv[1][2]) * h,
+  });
+  const alpha = paint.opacity ?? 1;
+  const stop = (s: ColorStop, t: number) => `${cssColor(s.color, s.color.a * alpha)} ${round(t * 100, 1)}%`;
+
+  if (paint.type === 'GRADIENT_LINEAR') {
+    const start = at(0, 0.5);
+    const end = at(1, 0.5);
+    const length = Math.hypot(end.x - start.x, end.y - start.y) || 1;
+    const dir = { x: (end.x - start.x) / length, y: (end.y - start.y) / length };
+    const span = Math.abs(w * dir.x) + Math.abs(h * dir.y) || 1;
+    const lineStart = { x: w / 2 - (dir.x * span) / 2, y: h / 2 - (dir.y * span) / 2 };
+    const offset = (start.x - lineStart.x) * dir.x + (start.y - lineStart.y) * dir.y;
+    const stops = paint.gradientStops.map((s) => stop(s, (offset + s.position * length) / span));
+    return `linear-gradient(${cssAngle(dir)}deg, ${stops.join(', ')})`;
+  }
+
+  const center = at(0.5, 0.5);
+  const stops = paint.gradientStops.map((s) => stop(s, s.position));
+  if (paint.type === 'GRADIENT_ANGULAR') {
+    const axis = at(1, 0.5);
+    const from = cssAngle({ x: axis.x - center.x, y: axis.y - center.y });
+    return `conic-gradient(from ${from}deg at ${px(center.x)} ${px(center.y)}, ${stops.join(', ')})`;
+  }
+  if (paint.type === 'GRADIENT_DIAMOND') warn('HTML 내보내기: 다이아몬드 그라디언트는 radial-gradient로 근사');
+  const rx = Math.hypot(at(1, 0.5).x - center.x, at(1, 0.5).y - center.y);
+  const ry = Math.hypot(at(0.5, 1).x - center.x, at(0.5, 1).y - center.y);
+  return `radial-gradient(${px(rx)} ${px(ry)} at ${px(center.x)} ${px(center.y)}, ${stops.join(', ')})`;
+}
+
+/** 이미지 채우기 바이트 → data URI (해시별 캐시) */
+async function imageDataUri(hash: string): Promise<string | null> {
+  const cached = exportImageUris.get(hash);
+  if (cached) return cached;
+  const bytes = await figma.getImageByHash(hash)?.getBytesAsync();
+  if (!bytes) return null;
+  const mime = bytes[0] === 0xff ? 'image/jpeg' : bytes[0] === 0x47 ? 'image/gif' : 'image/png';
+  const uri = `data:${mime};base64,${figma.base64Encode(bytes)}`;
+  exportImageUris.set(hash, uri);
+  return uri;
+}
+
+interface BackgroundLayer {
+  image: string;
+  size: string;
+  position: string;
+  repeat: string;
+}
+
+/** 이미지 채우기 scaleMode → background-size/position/repeat (parseBackgroundUrl의 역) */
+async function imageLayer(paint: ImagePaint, w: number, h: number): Promise<BackgroundLayer | null> {
+  if (!paint.imageHash) return null;
+  const uri = await imageDataUri(paint.imageHash);
+  if (!uri) return null;
+  if ((paint.opacity ?? 1) < 1) warn('HTML 내보내기: 이미지 채우기 불투명도는 생략됨');
+  const image = `url(${uri})`;
+  if (paint.scaleMode === 'FIT') return { image, size: 'contain', position: 'center', repeat: 'no-repeat' };
+  if (paint.scaleMode === 'TILE') {
+    const size = await figma.getImageByHash(paint.imageHash)!.getSizeAsync();
+    const k = paint.scalingFactor ?? 1;
+    return { image, size: `${px(size.width * k)} ${px(size.height * k)}`, position: '0 0', repeat: 'repeat' };
+  }
+  if (paint.scaleMode === 'CROP' && paint.imageTransform) {
+    // imageTransform: 레이어 정규 좌표 → 이미지 정규 좌표. 역행렬이 레이어 안 이미지 사각형
+    const inv = invertTransform(paint.imageTransform);
+    return {
+      image,
+      size: `${px(inv[0][0] * w)} ${px(inv[1][1] * h)}`,
+      position: `${px(inv[0][2] * w)} ${px(inv[1][2] * h)}`,
+      repeat: 'no-repeat',
+    };
+  }
+  return { image, size: 'cover', position: 'center', repeat: 'no-repeat' };
+}
+
+/** fills → background-color + background-image 레이어 (Figma는 마지막이 맨 위, CSS는 첫 레이어가 맨 위) */
+async function applyBackgroundCss(css: Declarations, paints: Paint[], w: number, h: number): Promise<void> {
+  let stack = paints;
+  if (stack.length > 0 && stack[0].type === 'SOLID') {
+    css.set('background-color', cssColor(stack[0].color, stack[0].opacity ?? 1));
+    stack = stack.slice(1);
+  }
+  const layers: BackgroundLayer[] = [];
+  for (const paint of stack.slice().reverse()) {
+    if (paint.type === 'SOLID') {
+      const c = cssColor(paint.color, paint.opacity ?? 1);
+      layers.push({ image: `linear-gradient(${c}, ${c})`, size: 'auto', position: '0 0', repeat: 'repeat' });
+    } else if (paint.type === 'IMAGE') {
+      const layer = await imageLayer(paint, w, h);
+      if (layer) layers.push(layer);
+    } else if (paint.type === 'VIDEO' || paint.type === 'PATTERN') {
+      warn(`HTML 내보내기: ${paint.type} 채우기는 생략됨`);
+    } else {
+      layers.push({ image: gradientCss(paint, w, h), size: 'auto', position: '0 0', repeat: 'repeat' });
+    }
+  }
+  if (layers.length === 0) return;
+  css.set('background-image', layers.map((l) => l.image).join(', '));
+  if (layers.some((l) => l.size !== 'auto')) css.set('background-size', layers.map((l) => l.size).join(', '));
+  if (layers.some((l) => l.position !== '0 0')) css.set('background-position', layers.map((l) => l.position).join(', '));
+  if (layers.some((l) => l.repeat !== 'repeat')) css.set('background-repeat', layers.map((l) => l.repeat).join(', '));
+}
+
+/** 대표 선 색상 — 그라디언트 선은 첫 스톱 색상으로 근사 */
+function strokeColor(paint: Paint): string | null {
+  if (paint.type === 'SOLID') return cssColor(paint.color, paint.opacity ?? 1);
+  if (paint.type === 'IMAGE' || paint.type === 'VIDEO' || paint.type === 'PATTERN') return null;
+  warn('HTML 내보내기: 그라디언트 선은 단색으로 근사');
+  const first = paint.gradientStops[0];
+  return first ? cssColor(first.color, first.color.a * (paint.opacity ?? 1)) : null;
+}
+
+/**
+ * strokes → border (INSIDE·CENTER) 또는 outline (OUTSIDE).
+ * dashPattern은 첫 대시가 선 두께 이하면 dotted, 아니면 dashed (dashPatternFor의 역).
+ * 패딩 보정용으로 면별 border 폭 [top, right, bottom, left]을 반환한다.
+ */
+function applyStrokeCss(css: Declarations, node: SceneNode & MinimalStrokesMixin): number[] {
+  const none = [0, 0, 0, 0];
+  const paints = visiblePaints(node.strokes);
+  if (paints.length === 0) return none;
+  const color = strokeColor(paints[paints.length - 1]);
+  if (!color) return none;
+
+  const weights = 'strokeTopWeight' in node
+    ? [node.strokeTopWeight, node.strokeRightWeight, node.strokeBottomWeight, node.strokeLeftWeight]
+    : Array(4).fill(typeof node.strokeWeight === 'number' ? node.strokeWeight : 1);
+  const max = Math.max(...weights);
+  if (max <= 0) return none;
+  const dash = 'dashPattern' in node ? node.dashPattern : [];
+  const style = dash.length === 0 ? 'solid' : dash[0] <= max ? 'dotted' : 'dashed';
+
+  if (node.strokeAlign === 'OUTSIDE') {
+    css.set('outline', `${px(max)} ${style} ${color}`);
+    return none;
+  }
+  if (weights.every((v) => v === max)) {
+    css.set('border', `${px(max)} ${style} ${color}`);
+  } else {
+    (['top', 'right', 'bottom', 'left'] as const).forEach((side, i) => {
+      if (weights[i] > 0) css.set(`border-${side}`, `${px(weights[i])} ${style} ${color}`);
+    });
+  }
+  return weights;
+}
+
+function applyRadiusCss(css: Declarations, node: SceneNode): void {
+  if (node.type === 'ELLIPSE') {
+    css.set('border-radius', '50%');
+    return;
+  }
+  if (!('cornerRadius' in node)) return;
+  const radius = node.cornerRadius;
+  if (radius !== figma.mixed) {
+    if (radius) css.set('border-radius', px(radius));
+  } else if ('topLeftRadius' in node) {
+    css.set('border-radius',
+      [node.topLeftRadius, node.topRightRadius, node.bottomRightRadius, node.bottomLeftRadius].map(px).join(' '));
+  }
+}
+
+/**
+ * effects → box-shadow / text-shadow / filter / backdrop-filter.
+ * 채우기·선이 없는 박스의 그림자는 내용 모양을 따라야 하므로 filter: drop-shadow()로 내보낸다.
+ * blur 반경은 가져오기와 같이 CSS blur(σ)의 약 2배로 본다.
+ */
+function applyEffectsCss(css: Declarations, effects: readonly Effect[], target: 'box' | 'boxless' | 'text'): void {
+  const shadows: string[] = [];
+  const filters: string[] = [];
+  for (const e of effects) {
+    if (!e.visible) continue;
+    if (e.type === 'DROP_SHADOW' || e.type === 'INNER_SHADOW') {
+      const color = cssColor(e.color, e.color.a);
+      const offset = `${px(e.offset.x)} ${px(e.offset.y)} ${px(e.radius)}`;
+      if (target === 'text') {
+        if (e.type === 'INNER_SHADOW') warn('HTML 내보내기: 텍스트 안쪽 그림자는 생략됨');
+        else shadows.push(`${offset} ${color}`);
+      } else if (target === 'boxless' && e.type === 'DROP_SHADOW') {
+        filters.push(`drop-shadow(${offset} ${color})`);
+      } else {
+        shadows.push(`${e.type === 'INNER_SHADOW' ? 'inset ' : ''}${offset} ${px(e.spread ?? 0)} ${color}`);
+      }
+    } else if (e.type === 'LAYER_BLUR') {
+      filters.push(`blur(${px(e.radius / 2)})`);
+    } else if (e.type === 'BACKGROUND_BLUR') {
+      css.set('backdrop-filter', `blur(${px(e.radius / 2)})`);
+    } else {
+      warn(`HTML 내보내기: ${e.type} 효과는 생략됨`);
+    }
+  }
+  if (shadows.length > 0) css.set(target === 'text' ? 'text-shadow' : 'box-shadow', shadows.join(', '));
+  if (filters.length > 0) css.set('filter', filters.join(' '));
+}
+
+/** 고정 크기 — 텍스트는 자동 크기 모드에 따라 폭/높이를 생략 */
+function applySizeCss(css: Declarations, node: SceneNode): void {
+  let fixedWidth = true;
+  let fixedHeight = true;
+  if (node.type === 'TEXT') {
+    fixedWidth = node.textAutoResize !== 'WIDTH_AND_HEIGHT';
+    fixedHeight = node.textAutoResize === 'NONE' || node.textAutoResize === 'TRUNCATE';
+  }
+  if (fixedWidth) css.set('width', px(node.width));
+  if (fixedHeight) css.set('height', px(node.height));
+}
+
+/**
+ * 배치: 루트는 relative, Auto Layout 바깥(또는 ABSOLUTE) 자식은 relativeTransform 그대로
+ * left/top + matrix(), 흐름 자식은 FIXED/FILL/HUG → width / flex:1·align-self:stretch / auto.
+ */
+function applyPositionCss(css: Declarations, node: SceneNode, parent: ExportParent | null): void {
+  if (!parent) {
+    css.set('position', 'relative');
+    applySizeCss(css, node);
+    return;
+  }
+  const inFlow = parent.layout !== 'NONE' && !('layoutPositioning' in node && node.layoutPositioning === 'ABSOLUTE');
+  if (!inFlow) {
+    const t = node.relativeTransform;
+    css.set('position', 'absolute');
+    css.set('left', px(t[0][2] - parent.origin.x));
+    css.set('top', px(t[1][2] - parent.origin.y));
+    applySizeCss(css, node);
+    if (!isIdentityMatrix(t)) {
+      css.set('transform', `matrix(${[t[0][0], t[1][0], t[0][1], t[1][1]].map((v) => round(v, 4)).join(', ')}, 0, 0)`);
+      css.set('transform-origin', '0 0');
+    }
+    return;
+  }
+
+  const horizontal = parent.layout === 'HORIZONTAL';
+  const sizing = (axis: 'h' | 'v') => {
+    if (axis === 'h' && 'layoutSizingHorizontal' in node) return node.layoutSizingHorizontal;
+    if (axis === 'v' && 'layoutSizingVertical' in node) return node.layoutSizingVertical;
+    return 'FIXED';
+  };
+  let grows = false;
+  for (const axis of ['h', 'v'] as const) {
+    const mode = sizing(axis);
+    if (mode === 'FIXED') css.set(axis === 'h' ? 'width' : 'height', px(axis === 'h' ? node.width : node.height));
+    if (mode !== 'FILL' || parent.layout === 'GRID') continue;   // Grid 셀은 기본이 stretch
+    if ((axis === 'h') === horizontal) {
+      css.set('flex', '1 1 0');
+      css.set(axis === 'h' ? 'min-width' : 'min-height', '0');
+      grows = true;
+    } else {
+      css.set('align-self', 'stretch');
+    }
+  }
+  // Figma 흐름 자식은 줄어들지 않음
+  if (!grows && parent.layout !== 'GRID') css.set('flex-shrink', '0');
+  if (parent.layout === 'GRID' && 'gridColumnAnchorIndex' in node) {
+    css.set('grid-column', `${node.gridColumnAnchorIndex + 1} / span ${node.gridColumnSpan}`);
+    css.set('grid-row', `${node.gridRowAnchorIndex + 1} / span ${node.gridRowSpan}`);
+  }
+}
+
+const PRIMARY_ALIGN_CSS: Record<string, string> = {
+  CENTER: 'center', MAX: 'flex-end', SPACE_BETWEEN: 'space-between',
+};
+const COUNTER_ALIGN_CSS: Record<string, string> = {
+  MIN: 'flex-start', CENTER: 'center', MAX: 'flex-end', BASELINE: 'baseline',
+};
 
-async function buildTree(node: DomNodeData, parent: FrameNode): Promise<void> {
-  const { rect, style, tagName, text, textSegments, children, visible, imageUrl } = node;
-  const w = Math.max(rect.width, 1);
-  const h = Math.max(rect.height, 1);
+function trackCss(track: GridTrackSize): string {
+  if (track.type === 'FIXED') return px(track.value ?? 0);
+  if (track.type === 'FLEX') return `${round(track.value ?? 1)}fr`;
+  return 'auto';
+}
 
-  // ── 텍스트 리프 노드 ──────────────────────────────
-  if (text && children.length === 0) {
-    const family = mapFontFamily(style.fontFamily);
-    const isItalic = style.fontStyle === 'italic' || style.fontStyle === 'oblique';
-    const figmaStyle = weightToFigmaStyle(style.fontWeight, isItalic);
-    const fontName = await loadBestFont(family, figmaStyle);
+/**
+ * Auto Layout → flex / grid.
+ * Figma 패딩은 프레임 가장자리 기준(선은 레이아웃에서 제외)이고 CSS 패딩은 border 안쪽 기준이므로
+ * border 폭을 뺀다 (applyAutoLayout의 역).
+ */
+function applyLayoutCss(css: Declarations, frame: FrameNode | ComponentNode | InstanceNode, borders: number[]): void {
+  if (frame.layoutMode === 'NONE') return;
+  const inset = frame.strokesIncludedInLayout ? [0, 0, 0, 0] : borders;
+  const padding = [frame.paddingTop, frame.paddingRight, frame.paddingBottom, frame.paddingLeft]
+    .map((p, i) => Math.max(p - inset[i], 0));
+  if (padding.some((p) => p > 0)) css.set('padding', padding.map(px).join(' '));
 
-    // 텍스트 노드 공통 생성 헬퍼
-    // fixedWidth > 0 → HEIGHT 모드(고정 폭, text-align 동작)
-    // fixedWidth = 0 → WIDTH_AND_HEIGHT 모드(inline 요소 등)
-    const makeText = (tx: number, ty: number, fixedWidth = 0): TextNode => {
-      const t = figma.createText();
-      t.fontName = fontName;
-      t.fontSize = Math.max(style.fontSize, 1);
-      t.characters = text!;
-      const textPaint = toSolidPaint(style.color);
-      if (textPaint) t.fills = [textPaint];
-      const alignMap: Record<string, 'LEFT' | 'CENTER' | 'RIGHT' | 'JUSTIFIED'> = {
-        left: 'LEFT', center: 'CENTER', right: 'RIGHT', justify: 'JUSTIFIED',
-      };
-      t.textAlignHorizontal = alignMap[style.textAlign] ?? 'LEFT';
-      const lh = parseFloat(style.lineHeight);
-      if (!isNaN(lh) && lh > 0 && style.lineHeight !== 'normal') {
-        t.lineHeight = { value: Math.round(lh), unit: 'PIXELS' };
-      }
-      const ls = parseFloat(style.letterSpacing);
-      if (!isNaN(ls) && style.letterSpacing !== 'normal' && style.letterSpacing !== '0px') {
-        t.letterSpacing = { value: ls, unit: 'PIXELS' };
-      }
-      // text-decoration: underline / line-through
-      if (style.textDecoration.includes('underline')) {
-        t.textDecoration = 'UNDERLINE';
-      } else if (style.textDecoration.includes('line-through')) {
-        t.textDecoration = 'STRIKETHROUGH';
-      }
-      if (fixedWidth > 0) {
-        // 블록 요소: 고정 폭 + HEIGHT 자동 → text-align(center/right 등) 동작
-        t.textAutoResize = 'HEIGHT';
-        t.resize(Math.max(fixedWidth, 10), 20);
-      } else {
-        // 인라인 요소: Figma가 폰트 메트릭으로 폭/높이 자동 결정
-        t.textAutoResize = 'WIDTH_AND_HEIGHT';
-      }
-      t.x = tx;
-      t.y = ty;
-      return t;
-    };
+  if (frame.layoutMode === 'GRID') {
+    css.set('display', 'grid');
+    css.set('grid-template-columns', frame.gridColumnSizes.map(trackCss).join(' '));
+    css.set('grid-template-rows', frame.gridRowSizes.map(trackCss).join(' '));
+    if (frame.gridRowGap > 0 || frame.gridColumnGap > 0) css.set('gap', `${px(frame.gridRowGap)} ${px(frame.gridColumnGap)}`);
+    return;
+  }
 
-    // bold/color 세그먼트 적용 헬퍼
-    const applyBoldSegments = async (t: TextNode): Promise<void> => {
-      if (!textSegments || textSegments.length === 0) return;
-      let offset = 0;
-      for (const seg of textSegments) {
-        const len = seg.text.length;
-        if (len > 0 && offset + len <= t.characters.length) {
-          if (seg.bold) {
-            const boldFont = await loadBestFont(family, weightToFigmaStyle('700', isItalic));
-            t.setRangeFontName(offset, offset + len, boldFont);
-          }
-          if (seg.color) {
-            const segPaint = toSolidPaint(seg.color);
-            if (segPaint) t.setRangeFills(offset, offset + len, [segPaint]);
-          }
-        }
-        offset += len;
-      }
-    };
+  css.set('display', 'flex');
+  css.set('flex-direction', frame.layoutMode === 'HORIZONTAL' ? 'row' : 'column');
+  const wraps = frame.layoutWrap === 'WRAP';
+  if (wraps) css.set('flex-wrap', 'wrap');
+  const spacing = frame.primaryAxisAlignItems === 'SPACE_BETWEEN' ? 0 : frame.itemSpacing;
+  const crossSpacing = wraps ? frame.counterAxisSpacing ?? 0 : 0;
+  if (crossSpacing > 0) css.set('gap', `${px(crossSpacing)} ${px(spacing)}`);
+  else if (spacing > 0) css.set('gap', px(spacing));
+  const justify = PRIMARY_ALIGN_CSS[frame.primaryAxisAlignItems];
+  if (justify) css.set('justify-content', justify);
+  css.set('align-items', COUNTER_ALIGN_CSS[frame.counterAxisAlignItems] ?? 'flex-start');
+}
 
-    // 배지/버튼: 테두리 또는 배경이 있으면 Frame으로 감싸 박스 스타일 재현
-    const bw = Math.max(style.borderTopWidth, style.borderRightWidth,
-      style.borderBottomWidth, style.borderLeftWidth);
-    const hasBorder = bw > 0 && style.borderStyle !== 'none' && !isTransparent(style.borderColor);
-    const hasBg = !isTransparent(style.backgroundColor) ||
-      (style.backgroundImage !== '' && style.backgroundImage !== 'none');
+type ExportTextSegment = Pick<StyledTextSegment,
+  'characters' | 'start' | 'end' | 'fontName' | 'fontSize' | 'fontWeight' | 'fills' | 'textDecoration' |
+  'textCase' | 'letterSpacing' | 'lineHeight' | 'hyperlink'>;
 
-    // 한 줄 텍스트 판단: 높이가 폰트 크기의 3.5배 미만이면 줄바꿈 금지
-    // (text-base(16px) + h-[50px] 버튼 등이 올바르게 단일 행으로 처리됨)
-    const isSingleLine = h < style.fontSize * 3.5;
+function textSegmentCss(seg: ExportTextSegment, w: number, h: number): Declarations {
+  const css: Declarations = new Map();
+  css.set('font-family', `'${seg.fontName.family.replace(/'/g, "\\'")}'`);
+  css.set('font-size', px(seg.fontSize));
+  css.set('font-weight', String(seg.fontWeight));
+  if (/italic|oblique/i.test(seg.fontName.style)) css.set('font-style', 'italic');
+  const lh = seg.lineHeight;
+  css.set('line-height', lh.unit === 'PIXELS' ? px(lh.value) : lh.unit === 'PERCENT' ? `${round(lh.value)}%` : 'normal');
+  const ls = seg.letterSpacing;
+  if (ls.value !== 0) css.set('letter-spacing', ls.unit === 'PIXELS' ? px(ls.value) : `${round(ls.value / 100, 3)}em`);
+  if (seg.textDecoration === 'UNDERLINE') css.set('text-decoration', 'underline');
+  else if (seg.textDecoration === 'STRIKETHROUGH') css.set('text-decoration', 'line-through');
+  const textCase: Record<string, [string, string]> = {
+    UPPER: ['text-transform', 'uppercase'],
+    LOWER: ['text-transform', 'lowercase'],
+    TITLE: ['text-transform', 'capitalize'],
+    SMALL_CAPS: ['font-variant', 'small-caps'],
+    SMALL_CAPS_FORCED: ['font-variant', 'all-small-caps'],
+  };
+  if (textCase[seg.textCase]) css.set(...textCase[seg.textCase]);
 
-    // HEIGHT(고정 폭) vs WIDTH_AND_HEIGHT(자동 폭) 판단 헬퍼
-    const calcFixedWidth = (containerW: number): number => {
-      const estMin = style.fontSize * (text?.length ?? 1);
-      return containerW > estMin * 1.5 ? containerW : 0;
-    };
+  const fills = visiblePaints(seg.fills);
+  const top = fills[fills.length - 1];
+  if (!top) {
+    css.set('color', 'transparent');
+  } else if (top.type === 'SOLID') {
+    css.set('color', cssColor(top.color, top.opacity ?? 1));
+  } else if (top.type !== 'IMAGE' && top.type !== 'VIDEO' && top.type !== 'PATTERN') {
+    // 그라디언트 글자 채우기 → background-clip: text (applyBackgroundClipText의 역)
+    css.set('color', 'transparent');
+    css.set('background-image', gradientCss(top, w, h));
+    css.set('-webkit-background-clip', 'text');
+    css.set('background-clip', 'text');
+  } else {
+    warn('HTML 내보내기: 이미지 글자 채우기는 생략됨');
+  }
+  return css;
+}
 
-    if (hasBorder || hasBg) {
-      const frame = figma.createFrame();
-      frame.name = tagName;
-      frame.resize(w, h);
-      frame.x = rect.x;
-      frame.y = rect.y;
-      applyFrameStyle(frame, style);
+function textHtml(characters: string): string {
+  return escapeHtml(characters).replace(/\r\n|[\n\u2028\u2029]/g, '<br>');
+}
 
-      if (isSingleLine) {
-        // 한 줄 텍스트: WIDTH_AND_HEIGHT → 줄바꿈 절대 방지
-        const t = makeText(style.paddingLeft, style.paddingTop, 0);
-        await applyBoldSegments(t);
-        // 가로 정렬
-        const isFlex = style.display.includes('flex');
-        if (isFlex && style.justifyContent === 'center') {
-          t.x = Math.round((w - t.width) / 2);
-        } else if (style.textAlign === 'center') {
-          t.x = Math.round((w - t.width) / 2);
-        }
-        // 세로 정렬
-        if (isFlex && style.alignItems === 'center') {
-          t.y = Math.round((h - t.height) / 2);
-        } else if (tagName === 'button' || tagName === 'a') {
-          t.y = Math.round((h - t.height) / 2);
-        }
-        frame.appendChild(t);
-      } else {
-        // 여러 줄 가능: 고정 폭
-        const textAreaW = Math.max(w - style.paddingLeft - style.paddingRight, 10);
-        const t = makeText(style.paddingLeft, style.paddingTop, textAreaW);
-        await applyBoldSegments(t);
-        // 세로 정렬 (flex center 또는 button/a 태그)
-        const isFlex2 = style.display.includes('flex');
-        if (isFlex2 && style.alignItems === 'center') {
-          t.y = Math.round((h - t.height) / 2);
-        } else if (tagName === 'button' || tagName === 'a') {
-          t.y = Math.round((h - t.height) / 2);
-        }
-        frame.appendChild(t);
-      }
+/** 텍스트 노드 → 요소 하나 + 범위 스타일이 다른 구간의 span / 링크 구간의 a */
+async function exportText(node: TextNode, css: Declarations, tag: string, indent: string): Promise<string> {
+  // 빈 텍스트 레이어는 세그먼트가 없다 — 크기·위치만 가진 빈 요소
+  if (node.characters === '') return `${indent}<${tag}${attributes(node, css, tag)}></${tag}>`;
+  const segments = node.getStyledTextSegments([
+    'fontName', 'fontSize', 'fontWeight', 'fills', 'textDecoration', 'textCase', 'letterSpacing',
+    'lineHeight', 'hyperlink',
+  ]);
+  const base = segments.reduce((a, b) => (b.end - b.start > a.end - a.start ? b : a));
+  const baseCss = textSegmentCss(base, node.width, node.height);
+  for (const [prop, value] of baseCss) css.set(prop, value);
 
-      if (!visible) frame.visible = false;
-      parent.appendChild(frame);
-      frameCount++;
-      textCount++;
-      return;
+  const align: Record<string, string> = { CENTER: 'center', RIGHT: 'right', JUSTIFIED: 'justify' };
+  if (align[node.textAlignHorizontal]) css.set('text-align', align[node.textAlignHorizontal]);
+  css.set('white-space', node.textAutoResize === 'WIDTH_AND_HEIGHT' ? 'pre' : 'pre-wrap');
+  if (node.textTruncation === 'ENDING') {
+    css.set('overflow', 'hidden');
+    css.set('text-overflow', 'ellipsis');
+    if (node.maxLines && node.maxLines > 1) {
+      css.set('display', '-webkit-box');
+      css.set('-webkit-line-clamp', String(node.maxLines));
+      css.set('-webkit-box-orient', 'vertical');
+    } else {
+      css.set('white-space', 'nowrap');
     }
+  }
+  applyEffectsCss(css, node.effects, 'text');
+  if (UA_MARGIN_TAGS.has(tag)) css.set('margin', '0');
 
-    // 일반 텍스트 리프
-    // center/right 정렬:
-    // ① WIDTH_AND_HEIGHT 모드로 Figma 실제 폰트 폭을 얻어 줄바꿈 없이 렌더
-    // ② DOM 중심점(center) 또는 DOM 오른쪽 끝(right)을 기준으로 x 재계산
-    if (style.textAlign === 'center' || style.textAlign === 'right') {
-      const t = makeText(0, rect.y, 0);
-      await applyBoldSegments(t);
-      if (style.textAlign === 'center') {
-        const domCenter = rect.x + rect.width / 2;
-        t.x = Math.round(domCenter - t.width / 2);
-      } else {
-        t.x = Math.round(rect.x + rect.width - t.width);
-      }
-      if (!visible) t.visible = false;
-      parent.appendChild(t);
-      textCount++;
-      return;
-    }
+  const runs = segments.map((seg) => {
+    const segCss = textSegmentCss(seg, node.width, node.height);
+    const diff: Declarations = new Map();
+    for (const [prop, value] of segCss) if (baseCss.get(prop) !== value) diff.set(prop, value);
+    for (const prop of baseCss.keys()) if (!segCss.has(prop) && TEXT_RESET[prop]) diff.set(prop, TEXT_RESET[prop]);
 
-    // left/start 정렬: DOM 위치 그대로
-    if (isSingleLine) {
-      // 한 줄 텍스트: WIDTH_AND_HEIGHT → 줄바꿈 방지
-      const t = makeText(rect.x, rect.y, 0);
-      await applyBoldSegments(t);
-      if (!visible) t.visible = false;
-      parent.appendChild(t);
-      textCount++;
-      return;
+    const content = textHtml(seg.characters);
+    if (seg.hyperlink?.type === 'URL') {
+      // <a> 기본 색상·밑줄을 덮도록 항상 명시
+      diff.set('color', segCss.get('color') ?? 'inherit');
+      diff.set('text-decoration', segCss.get('text-decoration') ?? 'none');
+      return `<a href="${escapeHtml(seg.hyperlink.value)}"${attributes(null, diff, 'link')}>${content}</a>`;
     }
+    return diff.size > 0 ? `<span${attributes(null, diff, 'span')}>${content}</span>` : content;
+  });
+  return `${indent}<${tag}${attributes(node, css, tag)}>${runs.join('')}</${tag}>`;
+}
 
-    const isBlockDisplay = /^(block|flex|grid|list-item|table)/.test(style.display);
-    const fixedW = isBlockDisplay ? calcFixedWidth(w) : 0;
-    const t = makeText(rect.x, rect.y, fixedW);
-    await applyBoldSegments(t);
-    if (!visible) t.visible = false;
-    parent.appendChild(t);
-    textCount++;
-    return;
+/**
+ * 벡터·<svg>로 가져온 프레임 → 인라인 SVG.
+ * exportAsync는 회전을 적용한 경계 상자로 그리므로 회전된 노드는 absoluteBoundingBox 기준으로 다시 배치한다.
+ */
+async function exportSvg(node: SceneNode, css: Declarations, parent: ExportParent | null, indent: string): Promise<string> {
+  const svg = (await node.exportAsync({ format: 'SVG_STRING', useAbsoluteBounds: true })).trim();
+  const bounds = node.absoluteBoundingBox;
+  if (css.has('transform') && bounds && parent?.box) {
+    css.delete('transform');
+    css.delete('transform-origin');
+    css.set('left', px(bounds.x - parent.box.x));
+    css.set('top', px(bounds.y - parent.box.y));
+    css.set('width', px(bounds.width));
+    css.set('height', px(bounds.height));
   }
+  css.set('display', 'block');
+  return indent + svg.replace(/^<svg\b/, `<svg${attributes(node, css, 'svg')}`);
+}
 
-  // ── SVG → createNodeFromSvg로 실제 벡터 재현 ────
-  if (tagName === 'svg') {
-    if (node.svgHtml) {
-      try {
-        const svgFrame = figma.createNodeFromSvg(node.svgHtml);
-        svgFrame.name = 'svg-icon';
-        svgFrame.fills = [];          // 배경 투명
-        // SVG HTML에 이미 정확한 픽셀 width/height가 주입되어 있으므로
-        // resize는 실질적 no-op이지만, 부모 좌표계 정합성을 위해 수행
-        if (Math.abs(svgFrame.width - w) > 1 || Math.abs(svgFrame.height - h) > 1) {
-          svgFrame.resize(w, h);
-        }
-        svgFrame.x = rect.x;
-        svgFrame.y = rect.y;
-        if (style.opacity < 1) svgFrame.opacity = style.opacity;
-        if (!visible) svgFrame.visible = false;
-        parent.appendChild(svgFrame);
-        frameCount++;
-        return;
-      } catch {
-        // 파싱 실패 시 아래 fallback으로 진행
-      }
-    }
-    // Fallback: 회색 사각형 플레이스홀더
-    const r = figma.createRectangle();
-    r.name = 'svg-placeholder';
-    r.resize(w, h);
-    r.fills = [{ type: 'SOLID', color: { r: 0.7, g: 0.7, b: 0.7 }, opacity: 0.4 }];
-    if (style.opacity < 1) r.opacity = style.opacity;
-    r.x = rect.x;
-    r.y = rect.y;
-    if (!visible) r.visible = false;
-    parent.appendChild(r);
-    return;
+/** 가져오기 때 저장한 태그 (없으면 기본값) — 자식을 담을 수 없는 태그는 div로 */
+function exportTag(node: SceneNode, fallback: string): string {
+  const tag = node.getPluginData(HTML_TAG);
+  if (tag === '#text') return 'span';   // 요소 사이의 익명 텍스트
+  if (!/^[a-z][a-z0-9-]*$/.test(tag)) return fallback;
+  return CONTAINER_TAG_FALLBACK.has(tag) ? fallback : tag;
+}
+
+/** 클래스 이름 힌트: 레이어 이름의 마지막 클래스·id 조각 ("header.site-nav" → site-nav) */
+function classHint(name: string, fallback: string): string {
+  const last = name.replace(/"[^"]*"/g, '').trim().split(/[.#\s]+/).filter(Boolean).pop() ?? '';
+  const slug = last.toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 32);
+  return /^[a-z_]/.test(slug) ? slug : fallback;
+}
+
+/** 인라인 모드는 style 속성, 클래스 모드는 같은 이름 힌트·같은 선언끼리 클래스 하나를 공유 */
+function attributes(node: SceneNode | null, css: Declarations, hint: string): string {
+  const id = node?.getPluginData(HTML_ID);
+  let out = id ? ` id="${escapeHtml(id)}"` : '';
+  if (css.size === 0) return out;
+  const block = Array.from(css, ([prop, value]) => `${prop}: ${value}`);
+  if (exportMode === 'inline') return `${out} style="${escapeHtml(block.join('; '))}"`;
+
+  const key = `${hint}\n${block.join(';')}`;
+  let rule = exportRules.get(key);
+  if (!rule) {
+    let name = hint;
+    for (let n = 2; exportClassNames.has(name); n++) name = `${hint}-${n}`;
+    exportClassNames.add(name);
+    rule = { name, block };
+    exportRules.set(key, rule);
   }
+  return `${out} class="${rule.name}"`;
+}
 
-  // ── 이미지 플레이스홀더 (<img>) ────────────────────
-  if (tagName === 'img') {
-    const imgRect = figma.createRectangle();
-    imgRect.name = imageUrl ? 'img' : 'img (placeholder)';
-    imgRect.resize(w, h);
-    imgRect.fills = [{ type: 'SOLID', color: { r: 0.88, g: 0.9, b: 0.92 } }];
-    applyCornerRadius(imgRect, style);
-    imgRect.x = rect.x;
-    imgRect.y = rect.y;
-    if (!visible) imgRect.visible = false;
-    parent.appendChild(imgRect);
-    frameCount++;
-    return;
+/** HTML 내보내기가 원래 태그·id로 되돌릴 수 있도록 가져온 요소 정보를 남긴다 */
+function tagHtmlElement(created: SceneNode, node: DomNodeData): void {
+  created.setPluginData(HTML_TAG, node.tagName);
+  if (node.elementId) created.setPluginData(HTML_ID, node.elementId);
+}
+
+async function exportNode(node: SceneNode, parent: ExportParent | null, depth: number): Promise<string> {
+  if (!node.visible) return '';
+  if ('isMask' in node && node.isMask) {
+    warn('HTML 내보내기: 마스크 레이어는 생략됨');
+    return '';
   }
+  const indent = '  '.repeat(depth);
+  const css: Declarations = new Map();
+  applyPositionCss(css, node, parent);
+  if ('opacity' in node && node.opacity < 1) css.set('opacity', String(round(node.opacity, 3)));
+  if ('blendMode' in node && BLEND_MODE_CSS[node.blendMode]) css.set('mix-blend-mode', BLEND_MODE_CSS[node.blendMode]!);
 
-  // ── Frame (div, section, header, ... 모든 박스 요소) ────────
-  // 자식 extent가 반올림으로 부모를 초과할 수 있음 → clipsContent 시 잘림 방지
-  let frameW = w;
-  let frameH = h;
-  for (const child of children) {
-    frameH = Math.max(frameH, child.rect.y + child.rect.height);
-    frameW = Math.max(frameW, child.rect.x + child.rect.width);
+  const tag = node.getPluginData(HTML_TAG);
+  const partialArc = node.type === 'ELLIPSE' &&
+    (node.arcData.innerRadius > 0 || Math.abs(node.arcData.endingAngle - node.arcData.startingAngle - 2 * Math.PI) > 1e-3);
+  if (VECTOR_TYPES.has(node.type) || tag === 'svg' || partialArc) {
+    exportedCount++;
+    return exportSvg(node, css, parent, indent);
+  }
+  if (node.type === 'TEXT') {
+    exportedCount++;
+    return exportText(node, css, exportTag(node, 'p'), indent);
+  }
+  if (node.type === 'LINE') {
+    // 선 두께 중심이 경로 위에 오도록 법선 방향으로 절반만큼 당김
+    exportedCount++;
+    const weight = typeof node.strokeWeight === 'number' ? node.strokeWeight : 1;
+    const paint = visiblePaints(node.strokes).pop();
+    const color = paint ? strokeColor(paint) : null;
+    if (css.get('position') === 'absolute') {
+      const t = node.relativeTransform;
+      css.set('left', px(t[0][2] - (parent?.origin.x ?? 0) - (t[0][1] * weight) / 2));
+      css.set('top', px(t[1][2] - (parent?.origin.y ?? 0) - (t[1][1] * weight) / 2));
+    }
+    css.set('height', '0');
+    if (color) {
+      const style = node.dashPattern.length === 0 ? 'solid' : node.dashPattern[0] <= weight ? 'dotted' : 'dashed';
+      css.set('border-top', `${px(weight)} ${style} ${color}`);
+    }
+    return `${indent}<div${attributes(node, css, classHint(node.name, 'line'))}></div>`;
   }
+  if (!BOX_TYPES.has(node.type)) {
+    warn(`HTML 내보내기: ${node.type} 레이어는 생략됨`);
+    return '';
+  }
+  exportedCount++;
 
-  const frame = figma.createFrame();
-  frame.resize(frameW, frameH);
-  frame.x = rect.x;
-  frame.y = rect.y;
+  const fills = 'fills' in node ? visiblePaints(node.fills) : [];
+  const element = exportTag(node, 'div');
+  const hint = classHint(node.name, element);
 
-  applyFrameStyle(frame, style);
+  // <img>로 가져온 이미지 사각형 → <img> + object-fit
+  const image = fills.length === 1 && fills[0].type === 'IMAGE' ? fills[0] as ImagePaint : null;
+  const childless = !('children' in node) || node.children.length === 0;
+  if (tag === 'img' && image?.imageHash && childless) {
+    const uri = await imageDataUri(image.imageHash);
+    if (uri) {
+      if ('strokes' in node) applyStrokeCss(css, node);
+      applyRadiusCss(css, node);
+      if ('effects' in node) applyEffectsCss(css, node.effects, 'box');
+      css.set('display', 'block');
+      css.set('object-fit', image.scaleMode === 'FIT' ? 'contain' : 'cover');
+      return `${indent}<img src="${uri}" alt=""${attributes(node, css, hint)}>`;
+    }
+  }
 
-  // 자식 재귀 처리
-  for (const child of children) {
-    try {
-      await buildTree(child, frame);
-    } catch (err) {
-      console.error('[html-importer] buildTree error:', err);
+  await applyBackgroundCss(css, fills, node.width, node.height);
+  const borders = 'strokes' in node ? applyStrokeCss(css, node) : [0, 0, 0, 0];
+  applyRadiusCss(css, node);
+  if ('effects' in node) {
+    const boxless = fills.length === 0 && borders.every((b) => b === 0);
+    applyEffectsCss(css, node.effects, boxless ? 'boxless' : 'box');
+  }
+  if ('clipsContent' in node && node.clipsContent) css.set('overflow', 'hidden');
+  if (node.type === 'FRAME' || node.type === 'COMPONENT' || node.type === 'INSTANCE') applyLayoutCss(css, node, borders);
+  if (css.has('padding') || borders.some((b) => b > 0)) css.set('box-sizing', 'border-box');
+  if (UA_MARGIN_TAGS.has(element) || UA_LIST_TAGS.has(element)) css.set('margin', '0');
+  if (UA_LIST_TAGS.has(element)) {
+    if (!css.has('padding')) css.set('padding', '0');
+    css.set('list-style', 'none');
+  }
+  if (element === 'button') {
+    if (!css.has('padding')) css.set('padding', '0');
+    if (!css.has('border')) css.set('border', '0');
+    if (!css.has('background-color') && !css.has('background-image')) css.set('background', 'none');
+  }
+
+  const children: string[] = [];
+  if ('children' in node) {
+    const layout = 'layoutMode' in node ? node.layoutMode : 'NONE';
+    const childParent: ExportParent = {
+      layout,
+      origin: node.type === 'GROUP' ? { x: node.x, y: node.y } : { x: 0, y: 0 },
+      box: node.absoluteBoundingBox,
+    };
+    for (const child of node.children) {
+      const html = await exportNode(child, childParent, depth + 1);
+      if (html) children.push(html);
     }
+    // absolute 자식의 기준 상자
+    if (!css.has('position') && children.length > 0) css.set('position', 'relative');
   }
+  const open = `${indent}<${element}${attributes(node, css, hint)}>`;
+  if (children.length === 0) return `${open}</${element}>`;
+  return `${open}\n${children.join('\n')}\n${indent}</${element}>`;
+}
 
-  if (!visible) frame.visible = false;
-  parent.appendChild(frame);
-  frame.name = tagName;
+/** 현재 선택을 HTML로 — 클래스 모드는 맨 앞에 <style> 블록 */
+async function exportSelectionHtml(mode: HtmlExportMode): Promise<string> {
+  const selection = figma.currentPage.selection;
+  if (selection.length === 0) throw new Error('내보낼 레이어를 선택하세요.');
+  exportMode = mode;
+  exportRules = new Map();
+  exportClassNames = new Set();
+  exportImageUris = new Map();
+  exportedCount = 0;
 
-  frameCount++;
+  const parts: string[] = [];
+  for (const node of selection) {
+    const html = await exportNode(node, null, 0);
+    if (!html) continue;
+    parts.push(selection.length > 1 ? `<!-- ${node.name.replace(/--/g, '- -')} -->\n${html}` : html);
+  }
+  if (parts.length === 0) throw new Error('내보낼 수 있는 레이어가 없습니다.');
+
+  let html = parts.join('\n\n');
+  if (mode === 'classes' && exportRules.size > 0) {
+    const rules = Array.from(exportRules.values(), (r) => `.${r.name} {\n${r.block.map((d) => `  ${d};`).join('\n')}\n}`);
+    html = `<style>\n${rules.join('\n\n')}\n</style>\n\n${html}`;
+  }
+  return html;
 }
 
 // ─── 메시지 핸들러 ────────────────────────────────────────────
 
+/** 폰트 매핑 편집기용: 저장된 매핑 + 설치된 패밀리 목록 */
+async function postFontSettings(): Promise<void> {
+  await loadFontCatalog();
+  const families = Array.from(fontCatalog!.values(), (e) => e.family).sort((a, b) => a.localeCompare(b));
+  figma.ui.postMessage({
+    type: 'font-settings',
+    mappings: await loadFontMappings(),
+    families,
+  } as MainToUIMessage);
+}
+
+/** 리포트의 "레이어 선택" — 삭제된 노드는 건너뛰고 첫 노드가 있는 페이지로 이동 */
+async function selectNodes(ids: string[]): Promise<void> {
+  const nodes: SceneNode[] = [];
+  for (const id of ids) {
+    const node = await figma.getNodeByIdAsync(id);
+    if (node && node.type !== 'DOCUMENT' && node.type !== 'PAGE') nodes.push(node);
+  }
+  if (nodes.length === 0) {
+    figma.notify('선택할 레이어가 없습니다 (삭제되었을 수 있음)');
+    return;
+  }
+  let page: BaseNode | null = nodes[0].parent;
+  while (page && page.type !== 'PAGE') page = page.parent;
+  if (page && page !== figma.currentPage) await figma.setCurrentPageAsync(page as PageNode);
+  const onPage = nodes.filter((n) => {
+    let p: BaseNode | null = n.parent;
+    while (p && p.type !== 'PAGE') p = p.parent;
+    return p === figma.currentPage;
+  });
+  figma.currentPage.selection = onPage;
+  figma.viewport.scrollAndZoomIntoView(onPage);
+  figma.notify(`레이어 ${onPage.length}개 선택됨`);
+}
+
 figma.ui.onmessage = async function (msg: UIToMainMessage) {
+  if (msg.type === 'get-font-settings' || msg.type === 'save-font-mappings' || msg.type === 'select-nodes') {
+    // 결과 메시지를 기다리는 UI가 없으므로 실패는 알림으로 보고 (처리되지 않은 rejection 방지)
+    try {
+      if (msg.type === 'save-font-mappings') await figma.clientStorage.setAsync(FONT_MAPPINGS_KEY, msg.mappings);
+      if (msg.type === 'select-nodes') await selectNodes(msg.nodeIds);
+      else await postFontSettings();
+    } catch (err: any) {
+      figma.notify(`오류: ${err.message ?? String(err)}`, { error: true });
+    }
+    return;
+  }
+  if (msg.type === 'export-html') {
+    warnings = new Map();
+    try {
+      const html = await exportSelectionHtml(msg.mode);
+      figma.ui.postMessage({
+        type: 'export-html-done',
+        html,
+        nodeCount: exportedCount,
+        warnings: reportedWarnings(),
+      } as MainToUIMessage);
+    } catch (err: any) {
+      figma.ui.postMessage({
+        type: 'export-html-error',
+        error: err.message ?? String(err),
+      } as MainToUIMessage);
+    }
+    return;
+  }
   if (msg.type !== 'import-dom') return;
 
   frameCount = 0;
   textCount = 0;
+  warnings = new Map();
+  fontSubstitutions = new Map();
+  importOptions = msg.options;
+  imageAssets = msg.images;
 
   try {
-    const data = msg.data;
+    await loadFontCatalog();
+    userFontMap = {};
+    for (const m of await loadFontMappings()) userFontMap[m.css.trim().toLowerCase()] = m.figma.trim();
 
-    // 루트 컨테이너 Frame 생성
-    const rootFrame = figma.createFrame();
-    rootFrame.name = 'HTML Import';
-    rootFrame.resize(Math.max(data.rect.width, 1), Math.max(data.rect.height, 1));
+    const { breakpoints } = msg;
+    if (breakpoints.length === 0) throw new Error('가져올 렌더 너비가 없습니다.');
+    const roots = breakpoints.map((b) => b.data);
+    await createTokenVariables(importOptions.createVariables ? msg.variables : []);
+    if (importOptions.createStyles) await createLocalStyles(roots, msg.variables);
+    componentCount = 0;
+    instanceCount = 0;
+    updateStats = { updated: 0, added: 0, removed: 0 };
 
-    // 루트 스타일 적용
-    applyFrameStyle(rootFrame, data.style);
+    // 업데이트 대상: 같은 너비로 가져온 루트, 하나씩만 있으면 너비와 무관하게 매칭
+    const targets = importOptions.updateSelection ? findImportRoots(figma.currentPage.selection) : [];
+    if (importOptions.updateSelection && targets.length === 0) {
+      warn('업데이트할 가져오기 프레임이 선택되지 않아 새 프레임으로 가져옴');
+    }
 
-    // 페이지에 추가 후 뷰포트 중앙 배치
-    figma.currentPage.appendChild(rootFrame);
-    rootFrame.x = Math.round(figma.viewport.center.x - rootFrame.width / 2);
-    rootFrame.y = Math.round(figma.viewport.center.y - rootFrame.height / 2);
+    const frames: FrameNode[] = [];
+    const updated: FrameNode[] = [];
+    for (const { data, label, width } of breakpoints) {
+      const target = targets.find((t) => t.getPluginData(IMPORT_ROOT) === String(width) && !updated.includes(t))
+        ?? (targets.length === 1 && breakpoints.length === 1 ? targets[0] : undefined);
+      // 업데이트는 기존 컴포넌트·인스턴스를 제자리에서 갱신하므로 다시 계획하지 않는다 (새 빌드는 일반 프레임).
+      // 반복 트리 서명은 크기를 포함하므로 너비마다 따로 계획
+      if (target) repeatGroups = new Map();
+      else {
+        planComponents(data, importOptions.createComponents
+          ? { minRepeat: Math.max(importOptions.componentMinRepeat, 2), minNodes: Math.max(importOptions.componentMinNodes, 1) }
+          : null);
+      }
+      const baseName = data.figma?.name ?? 'HTML Import';
+      const frame = await buildRootFrame(data, breakpoints.length > 1 ? `${baseName} — ${label} · ${width}px` : baseName, width);
 
-    // 자식 노드 재귀 생성
-    for (const child of data.children) {
-      try {
-        await buildTree(child, rootFrame);
-      } catch (err) {
-        console.error('[html-importer] child error:', err);
+      if (target) {
+        await updateNode(target, frame, true);
+        target.setPluginData(IMPORT_ROOT, String(width));
+        frame.remove();
+        updated.push(target);
+      } else {
+        frames.push(frame);
       }
     }
+    const placed = frames.length > 0 ? arrangeRootFrames(frames, breakpoints[0].data.figma?.name ?? 'HTML Import') : [];
 
     // 선택 후 줌
-    figma.currentPage.selection = [rootFrame];
-    figma.viewport.scrollAndZoomIntoView([rootFrame]);
+    const result = [...updated, ...placed];
+    figma.currentPage.selection = result;
+    figma.viewport.scrollAndZoomIntoView(result);
 
     figma.ui.postMessage({
       type: 'import-done',
       frameCount,
       textCount,
+      componentCount,
+      instanceCount,
+      update: updated.length > 0 ? updateStats : null,
+      styleCount: importOptions.createStyles ? linkedStyleCount() : 0,
+      warnings: reportedWarnings(),
+      fontSubstitutions: Array.from(fontSubstitutions.values())
+        .filter((e) => e.nodeIds.size > 0)
+        .map((e) => ({ requested: e.requested, loaded: e.loaded, nodeIds: Array.from(e.nodeIds) })),
     } as MainToUIMessage);
   } catch (err: any) {
     figma.ui.postMessage({
@@ -0,0 +1,127 @@
+/**
+ * cssVariables.ts — 브라우저(플러그인 UI) 컨텍스트에서 실행
+ *
+ * 렌더된 문서의 :root / html / body 규칙에 선언된 CSS 커스텀 속성과
+ * tailwind.config 테마 토큰을 읽어 실제 계산값과 종류(색상/그림자/길이/숫자)로 정리한다.
+ * 메인 스레드는 이를 스타일 이름 힌트와 Figma 변수로 사용한다.
+ */
+import {normalizeCssColor} from './domSerializer';
+import type {CssVariable} from './types';
+
+// 전역 토큰을 선언하는 선택자 (Tailwind v4 @theme은 ":root, :host")
+const GLOBAL_SELECTOR = /(^|,)\s*(:root|:host|html|body)\s*(,|$)/;
+
+// Tailwind 내부 구현용 변수 (--tw-ring-offset-shadow 등) — 디자인 토큰이 아님
+const INTERNAL_PREFIX = /^--tw-/;
+
+/** 스타일시트를 재귀로 훑어 전역 선택자 규칙의 커스텀 속성 이름 수집 (@layer/@media 내부 포함) */
+function collectNames(rules: CSSRuleList, out: Set<string>): void {
+  for (const rule of Array.from(rules)) {
+    if (rule instanceof CSSStyleRule && GLOBAL_SELECTOR.test(rule.selectorText)) {
+      for (const prop of Array.from(rule.style)) {
+        if (prop.startsWith('--') && !INTERNAL_PREFIX.test(prop)) out.add(prop);
+      }
+    }
+    if ('cssRules' in rule && (rule as CSSGroupingRule).cssRules) {
+      collectNames((rule as CSSGroupingRule).cssRules, out);
+    }
+  }
+}
+
+// tailwind.config 테마 키 → Tailwind v4 @theme 변수 접두어 (--color-brand-500 형태로 통일)
+const THEME_PREFIX: Record<string, string> = {
+  colors: 'color',
+  borderRadius: 'radius',
+  spacing: 'spacing',
+  boxShadow: 'shadow',
+};
+
+/** 중첩 테마 객체를 평탄화: { brand: { DEFAULT, 500 } } → --color-brand, --color-brand-500 */
+function flattenTheme(prefix: string, value: unknown, out: Map<string, string>): void {
+  if (typeof value === 'string' || typeof value === 'number') {
+    out.set(prefix, String(value));
+  } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flattenTheme(key === 'DEFAULT' ? prefix : `${prefix}-${key}`, child, out);
+    }
+  }
+  // 함수형 테마 값(theme => …)은 Tailwind 내부에서만 해석 가능하므로 건너뜀
+}
+
+/**
+ * Tailwind Play CDN 설정(window.tailwind.config)의 theme / theme.extend 토큰.
+ * injectInlineScripts가 실행한 tailwind.config = {...} 가 여기에 남는다.
+ */
+function collectTailwindTokens(): Map<string, string> {
+  const tokens = new Map<string, string>();
+  const theme = (window as any).tailwind?.config?.theme;
+  if (!theme || typeof theme !== 'object') return tokens;
+  for (const source of [theme, theme.extend ?? {}]) {
+    for (const [key, prefix] of Object.entries(THEME_PREFIX)) {
+      flattenTheme(`--${prefix}`, source[key], tokens);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * 문서에 선언된 전역 CSS 변수와 Tailwind 테마 토큰을 scope 요소 기준으로 계산해 반환.
+ * 이름이 겹치면 실제로 적용된 CSS 변수가 우선한다.
+ * 값 종류는 프로브 요소에 대입해 판정하고, 색상은 rgb()/rgba()로 정규화한다.
+ */
+export function collectCssVariables(scope: Element): CssVariable[] {
+  const names = new Set<string>();
+  for (const sheet of Array.from(document.styleSheets)) {
+    try {
+      collectNames(sheet.cssRules, names);
+    } catch {
+      // 교차 출처 스타일시트는 cssRules 접근 불가
+    }
+  }
+  const themeTokens = collectTailwindTokens();
+  if (names.size === 0 && themeTokens.size === 0) return [];
+
+  const cs = window.getComputedStyle(scope);
+  const probe = document.createElement('div');
+  probe.style.cssText = 'position:absolute;visibility:hidden;pointer-events:none';
+  scope.appendChild(probe);
+
+  const variables: CssVariable[] = [];
+  try {
+    for (const name of names) {
+      const value = cs.getPropertyValue(name).trim();
+      if (!value) continue;
+      variables.push({name, ...classify(value, probe)});
+    }
+    for (const [name, value] of themeTokens) {
+      if (names.has(name) || !value.trim()) continue;
+      variables.push({name, ...classify(value.trim(), probe)});
+    }
+  } finally {
+    probe.remove();
+  }
+  return variables;
+}
+
+function classify(value: string, probe: HTMLElement): Omit<CssVariable, 'name'> {
+  if (CSS.supports('color', value)) {
+    probe.style.color = value;
+    const color = normalizeCssColor(window.getComputedStyle(probe).color);
+    probe.style.color = '';
+    return {kind: 'color', value: color};
+  }
+  if (/^-?[\d.]+$/.test(value)) return {kind: 'number', value};
+  if (/^(-?[\d.]+[a-z%]*|calc\(.*\))$/i.test(value) && CSS.supports('width', value)) {
+    probe.style.width = value;
+    const px = window.getComputedStyle(probe).width;
+    probe.style.width = '';
+    return {kind: 'length', value: px};
+  }
+  if (CSS.supports('box-shadow', value)) {
+    probe.style.boxShadow = value;
+    const shadow = window.getComputedStyle(probe).boxShadow;
+    probe.style.boxShadow = '';
+    return {kind: 'shadow', value: shadow};
+  }
+  return {kind: 'other', value};
+}
@@ -5,7 +5,9 @@
  * 실제 레이아웃과 스타일을 추출해 DomNodeData 트리를 만든다.
  * code.ts(Figma 샌드박스)로는 DOM API가 없으므로 이쪽에서만 실행된다.
  */
-import type { DomNodeData, DomStyleData, TextSegment } from './types';
+import type {
+  DomGridData, DomNodeData, DomStyleData, DomTransformData, FigmaHints, TextHighlight, TextSegment,
+} from './types';
 
 const SKIP_TAGS = new Set([
   'script', 'style', 'meta', 'link', 'head', 'noscript',
@@ -17,7 +19,7 @@ const SKIP_TAGS = new Set([
 const INLINE_TEXT_TAGS = new Set([
   'strong', 'em', 'b', 'i', 'a', 'span', 'small', 'mark',
   'sub', 'sup', 'abbr', 'cite', 'code', 'kbd', 'label',
-  'time', 'u', 's', 'del', 'ins',
+  'time', 'u', 's', 'del', 'ins', 'samp', 'var', 'q',
 ]);
 
 function pf(val: string): number {
@@ -33,7 +35,7 @@ const _colorCanvas = document.createElement('canvas');
 _colorCanvas.width = _colorCanvas.height = 1;
 const _colorCtx = _colorCanvas.getContext('2d')!;
 
-function normalizeCssColor(css: string): string {
+export function normalizeCssColor(css: string): string {
   if (!css || css === 'transparent' || css === 'none') return css;
   // 이미 legacy 포맷이면 그대로 반환 (성능 최적화)
   if (/^rgba?\(\s*\d+\s*,/.test(css)) return css;
@@ -130,12 +132,12 @@ function extractPseudoElement(
 function extractStyle(cs: CSSStyleDeclaration): DomStyleData {
   return {
     backgroundColor: normalizeCssColor(cs.backgroundColor),
-    backgroundImage: (() => {
-      // background-clip: text → 그라디언트가 텍스트 색상용이므로 배경에서 제외
-      const bgClip = (cs as any).webkitBackgroundClip || cs.backgroundClip;
-      if (bgClip === 'text') return '';
-      return cs.backgroundImage || '';
-    })(),
+    backgroundImage: cs.backgroundImage || '',
+    backgroundSize: cs.backgroundSize,
+    backgroundPosition: cs.backgroundPosition,
+    backgroundRepeat: cs.backgroundRepeat,
+    // background-clip: text → 그라디언트는 배경이 아니라 글자 채우기 (메인 스레드가 텍스트 fills로 적용)
+    backgroundClipText: ((cs as any).webkitBackgroundClip || cs.backgroundClip) === 'text',
     color: normalizeCssColor(cs.color),
     fontSize: pf(cs.fontSize) || 14,
     fontWeight: cs.fontWeight,
@@ -145,6 +147,11 @@ function extractStyle(cs: CSSStyleDeclaration): DomStyleData {
     textAlign: cs.textAlign,
     letterSpacing: cs.letterSpacing,
     textDecoration: cs.textDecoration,
+    textTransform: cs.textTransform,
+    textShadow: cs.textShadow,
+    textOverflow: cs.textOverflow,
+    whiteSpace: cs.whiteSpace,
+    lineClamp: parseInt(cs.getPropertyValue('-webkit-line-clamp'), 10) || 0,
     borderTopLeftRadius: pf(cs.borderTopLeftRadius),
     borderTopRightRadius: pf(cs.borderTopRightRadius),
     borderBottomRightRadius: pf(cs.borderBottomRightRadius),
@@ -155,8 +162,24 @@ function extractStyle(cs: CSSStyleDeclaration): DomStyleData {
     borderLeftWidth: pf(cs.borderLeftWidth),
     borderColor: effectiveBorderColor(cs),
     borderStyle: effectiveBorderStyle(cs),
+    borderTopColor: normalizeCssColor(cs.borderTopColor),
+    borderRightColor: normalizeCssColor(cs.borderRightColor),
+    borderBottomColor: normalizeCssColor(cs.borderBottomColor),
+    borderLeftColor: normalizeCssColor(cs.borderLeftColor),
+    borderTopStyle: cs.borderTopStyle,
+    borderRightStyle: cs.borderRightStyle,
+    borderBottomStyle: cs.borderBottomStyle,
+    borderLeftStyle: cs.borderLeftStyle,
+    outlineWidth: pf(cs.outlineWidth),
+    outlineStyle: cs.outlineStyle,
+    outlineColor: normalizeCssColor(cs.outlineColor),
+    outlineOffset: pf(cs.outlineOffset),
+    objectFit: cs.objectFit,
+    objectPosition: cs.objectPosition,
     opacity: pf(cs.opacity) || 1,
     boxShadow: cs.boxShadow,
+    filter: cs.filter,
+    backdropFilter: cs.backdropFilter || (cs as any).webkitBackdropFilter || 'none',
     overflow: cs.overflow,
     display: cs.display,
     flexDirection: cs.flexDirection,
@@ -169,9 +192,125 @@ function extractStyle(cs: CSSStyleDeclaration): DomStyleData {
     paddingBottom: pf(cs.paddingBottom),
     paddingLeft: pf(cs.paddingLeft),
     position: cs.position,
+    flexWrap: cs.flexWrap,
+    flexGrow: pf(cs.flexGrow),
+    alignSelf: cs.alignSelf,
   };
 }
 
+/**
+ * CSS transform(및 개별 translate/rotate/scale 속성)을 하나의 2D 행렬로 합성하고,
+ * 측정 동안 인라인 스타일로 해제한다.
+ * 해제 상태에서 getBoundingClientRect는 변환 전 레이아웃 박스(offsetWidth/offsetHeight와 동일)를
+ * 돌려주고, 자식 rect도 이 요소의 로컬 좌표계 기준이 된다.
+ * 반환된 restore()로 반드시 원래 인라인 값을 복원할 것.
+ */
+function suspendTransform(el: Element): { data: DomTransformData; restore: () => void } | null {
+  const cs = window.getComputedStyle(el);
+  const isNone = (v: string | undefined) => !v || v === 'none';
+  if (isNone(cs.transform) && isNone(cs.translate) && isNone(cs.rotate) && isNone(cs.scale)) return null;
+
+  // CSS 적용 순서: translate → rotate → scale → transform
+  let matrix = new DOMMatrix();
+  try {
+    if (!isNone(cs.translate)) {
+      // 퍼센트("-50% -50%", Tailwind v4 -translate-x-1/2)는 요소 자신의 border-box 기준
+      const [tx, ty] = cs.translate.split(/\s+/);
+      const box = el instanceof HTMLElement
+        ? { width: el.offsetWidth, height: el.offsetHeight }
+        : el.getBoundingClientRect();
+      const length = (v: string, size: number) => (v.endsWith('%') ? (pf(v) / 100) * size : pf(v));
+      matrix = matrix.translate(length(tx, box.width), length(ty ?? '0', box.height));
+    }
+    if (!isNone(cs.rotate)) {
+      // "45deg" 또는 "z 45deg" / "0 0 1 45deg" — 2D에서는 마지막 각도만 사용
+      const tokens = cs.rotate.split(/\s+/);
+      const angle = tokens[tokens.length - 1];
+      const deg = angle.endsWith('turn') ? pf(angle) * 360
+        : angle.endsWith('rad') ? (pf(angle) * 180) / Math.PI
+        : pf(angle);
+      matrix = matrix.rotate(deg);
+    }
+    if (!isNone(cs.scale)) {
+      const [sx, sy] = cs.scale.split(/\s+/).map(pf);
+      matrix = matrix.scale(sx, sy ?? sx);
+    }
+    if (!isNone(cs.transform)) matrix = matrix.multiply(new DOMMatrix(cs.transform));
+  } catch {
+    return null;
+  }
+  if (matrix.isIdentity) return null;
+
+  const [originX, originY] = cs.transformOrigin.split(/\s+/).map(pf);
+  const style = (el as HTMLElement).style;
+  const saved = [style.transform, style.translate, style.rotate, style.scale];
+  style.transform = 'none';
+  style.translate = 'none';
+  style.rotate = 'none';
+  style.scale = 'none';
+
+  return {
+    data: {
+      matrix: [matrix.a, matrix.b, matrix.c, matrix.d, matrix.e, matrix.f],
+      originX,
+      originY,
+    },
+    restore: () => {
+      [style.transform, style.translate, style.rotate, style.scale] = saved;
+    },
+  };
+}
+
+// ─── 레이어 이름용 식별 정보 ───────────────────────────────────
+
+function readIdentity(el: Element): Pick<DomNodeData, 'elementId' | 'role' | 'ariaLabel'> {
+  const label = el.getAttribute('aria-label')?.trim()
+    || (el.tagName.toLowerCase() === 'img' ? el.getAttribute('alt')?.trim() : undefined);
+  return {
+    elementId: el.getAttribute('id')?.trim() || undefined,
+    role: el.getAttribute('role')?.trim() || undefined,
+    ariaLabel: label || undefined,
+  };
+}
+
+// ─── data-figma-* 가져오기 힌트 ───────────────────────────────
+
+/** 불리언 속성: 존재하면 true, "false"만 false */
+function isFlagSet(el: Element, name: string): boolean {
+  const value = el.getAttribute(name);
+  return value !== null && value.trim().toLowerCase() !== 'false';
+}
+
+/** data-figma-ignore — 하위 트리째 가져오지 않음 */
+function isIgnored(el: Element): boolean {
+  return isFlagSet(el, 'data-figma-ignore');
+}
+
+function readFigmaHints(el: Element): FigmaHints | undefined {
+  const hints: FigmaHints = {};
+
+  const name = el.getAttribute('data-figma-name')?.trim();
+  if (name) hints.name = name;
+
+  const component = el.getAttribute('data-figma-component');
+  if (component !== null && component.trim().toLowerCase() !== 'false') hints.component = component.trim();
+
+  const autoLayout = el.getAttribute('data-figma-autolayout')?.trim().toLowerCase();
+  if (autoLayout !== undefined) {
+    if (autoLayout === 'false' || autoLayout === 'off' || autoLayout === 'none') hints.autoLayout = 'off';
+    else if (autoLayout === 'horizontal' || autoLayout === 'row') hints.autoLayout = 'horizontal';
+    else if (autoLayout === 'vertical' || autoLayout === 'column') hints.autoLayout = 'vertical';
+    else hints.autoLayout = 'auto';
+  }
+
+  if (isFlagSet(el, 'data-figma-flatten')) {
+    const mode = el.getAttribute('data-figma-flatten')!.trim().toLowerCase();
+    hints.flatten = mode === 'image' || mode === 'raster' || mode === 'rasterize' || mode === 'png' ? 'image' : 'vector';
+  }
+
+  return Object.keys(hints).length > 0 ? hints : undefined;
+}
+
 /**
  * @param el 직렬화할 DOM 요소
  * @param parentRect 부모의 getBoundingClientRect (상대 좌표 계산용)
@@ -179,8 +318,20 @@ function extractStyle(cs: CSSStyleDeclaration): DomStyleData {
  *               (container 자체가 루트일 때 필요)
  */
 export function serializeDom(el: Element, parentRect: DOMRect, isRoot = false): DomNodeData | null {
+  // transform이 있으면 해제한 상태로 이 요소와 하위 트리를 측정하고 행렬은 따로 기록
+  const suspended = suspendTransform(el);
+  try {
+    const data = serializeElement(el, parentRect, isRoot);
+    if (data && suspended) data.transform = suspended.data;
+    return data;
+  } finally {
+    suspended?.restore();
+  }
+}
+
+function serializeElement(el: Element, parentRect: DOMRect, isRoot: boolean): DomNodeData | null {
   const tag = el.tagName.toLowerCase();
-  if (SKIP_TAGS.has(tag)) return null;
+  if (SKIP_TAGS.has(tag) || isIgnored(el)) return null;
 
   const cs = window.getComputedStyle(el);
   if (cs.display === 'none') return null;
@@ -208,6 +359,9 @@ export function serializeDom(el: Element, parentRect: DOMRect, isRoot = false):
     if (fixedConverted) (el as HTMLElement).style.position = 'fixed';
     return {
       tagName: 'svg',
+      className: el.getAttribute('class') || undefined,
+      ...readIdentity(el),
+      figma: readFigmaHints(el),
       svgHtml: serializeSvg(el as SVGElement, cs),
       rect: {
         x: Math.round(rect.left - parentRect.left),
@@ -246,8 +400,9 @@ export function serializeDom(el: Element, parentRect: DOMRect, isRoot = false):
     if (t) text = t;
   } else if (hasSignificantTextNodes) {
     // 혼합 콘텐츠: 텍스트 노드 + 엘리먼트 자식 공존
+    // data-figma-ignore 인라인 자식은 병합하면 텍스트에 섞이므로 childNodes 순회로 처리
     const allInline = elementChildren.every(
-      (c) => INLINE_TEXT_TAGS.has(c.tagName.toLowerCase())
+      (c) => INLINE_TEXT_TAGS.has(c.tagName.toLowerCase()) && !isIgnored(c)
     );
     if (allInline && !hasBr) {
       // <p>텍스트<strong>볼드</strong>텍스트</p> 같은 패턴 (br 없음)
@@ -278,7 +433,9 @@ export function serializeDom(el: Element, parentRect: DOMRect, isRoot = false):
 
   let imageUrl: string | undefined;
   if (tag === 'img') {
-    imageUrl = (el as HTMLImageElement).src || undefined;
+    // srcset/sizes로 실제 선택된 소스 우선
+    const imgEl = el as HTMLImageElement;
+    imageUrl = imgEl.currentSrc || imgEl.src || undefined;
   }
 
   // 재귀: 자식 직렬화 (현재 element rect를 parentRect로 사용)
@@ -300,12 +457,15 @@ export function serializeDom(el: Element, parentRect: DOMRect, isRoot = false):
             ...extractStyle(cs),
             backgroundColor: 'transparent',
             backgroundImage: '',
+            backgroundClipText: false,
             borderTopWidth: 0,
             borderRightWidth: 0,
             borderBottomWidth: 0,
             borderLeftWidth: 0,
             borderColor: 'transparent',
             borderStyle: 'none',
+            outlineWidth: 0,
+            outlineStyle: 'none',
             paddingTop: 0,
             paddingRight: 0,
             paddingBottom: 0,
@@ -355,9 +515,11 @@ export function serializeDom(el: Element, parentRect: DOMRect, isRoot = false):
       ...extractStyle(cs),
       backgroundColor: 'transparent',
       backgroundImage: '',
+      backgroundClipText: false,
       borderTopWidth: 0, borderRightWidth: 0,
       borderBottomWidth: 0, borderLeftWidth: 0,
       borderColor: 'transparent', borderStyle: 'none',
+      outlineWidth: 0, outlineStyle: 'none',
       paddingTop: 0, paddingRight: 0,
       paddingBottom: 0, paddingLeft: 0,
     };
@@ -379,6 +541,12 @@ export function serializeDom(el: Element, parentRect: DOMRect, isRoot = false):
     textSegments = undefined;
   }
 
+  // display:grid → 트랙 크기 + 자식 셀 배치 기록
+  let grid: DomGridData | undefined;
+  if (cs.display === 'grid' || cs.display === 'inline-grid') {
+    grid = extractGrid(cs, rect, children);
+  }
+
   // 스타일: placeholder 텍스트면 ::placeholder 색상 사용
   const nodeStyle = extractStyle(cs);
   if (isPlaceholder) {
@@ -394,9 +562,13 @@ export function serializeDom(el: Element, parentRect: DOMRect, isRoot = false):
 
   return {
     tagName: tag,
+    className: el.getAttribute('class') || undefined,
+    ...readIdentity(el),
+    figma: readFigmaHints(el),
     text,
     textSegments,
     imageUrl,
+    grid,
     rect: {
       x: Math.round(rect.left - parentRect.left),
       y: Math.round(rect.top - parentRect.top),
@@ -409,59 +581,190 @@ export function serializeDom(el: Element, parentRect: DOMRect, isRoot = false):
   };
 }
 
+/** computed grid-template-* 값("[a] 240px 731px [b]")에서 px 트랙 크기만 추출 */
+function parseGridTracks(value: string): number[] {
+  if (!value || value === 'none') return [];
+  return value
+    .replace(/\[[^\]]*\]/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter((t) => /^-?[\d.]+px$/.test(t))
+    .map((t) => parseFloat(t));
+}
+
+/** 트랙 크기 + gap + content 정렬 오프셋으로 각 트랙의 시작 좌표 계산 */
+function gridTrackStarts(
+  tracks: number[], gap: number, origin: number, inner: number, align: string,
+): number[] {
+  const total = tracks.reduce((a, b) => a + b, 0) + gap * Math.max(tracks.length - 1, 0);
+  const free = Math.max(inner - total, 0);
+  let pos = origin;
+  if (align === 'center') pos += free / 2;
+  else if (align === 'end' || align === 'flex-end') pos += free;
+  const starts: number[] = [];
+  for (const size of tracks) {
+    starts.push(pos);
+    pos += size + gap;
+  }
+  return starts;
+}
+
+/** rect 구간 [start, end]가 걸치는 첫/마지막 트랙 인덱스 */
+function gridTrackRange(starts: number[], sizes: number[], start: number, end: number): [number, number] {
+  let first = 0;
+  for (let i = 0; i < starts.length; i++) {
+    if (starts[i] <= start + 1) first = i;
+  }
+  let last = first;
+  for (let i = first; i < starts.length; i++) {
+    last = i;
+    if (starts[i] + sizes[i] >= end - 1) break;
+  }
+  return [first, last];
+}
+
 /**
- * 인라인 혼합 콘텐츠에서 텍스트 세그먼트 + bold 여부를 추출.
+ * display:grid 컨테이너의 해석된 트랙 크기를 읽고, 각 자식의 셀 배치를 기록한다.
+ * auto-placement 아이템은 computed grid-row/column이 'auto'로 남으므로
+ * 자식 rect(부모 border-box 기준)를 트랙 경계에 맞춰 행/열과 span을 역산한다.
+ */
+function extractGrid(cs: CSSStyleDeclaration, rect: DOMRect, children: DomNodeData[]): DomGridData | undefined {
+  const columns = parseGridTracks(cs.gridTemplateColumns);
+  const rows = parseGridTracks(cs.gridTemplateRows);
+  if (columns.length === 0 || rows.length === 0) return undefined;
+
+  const bl = pf(cs.borderLeftWidth), bt = pf(cs.borderTopWidth);
+  const pl = pf(cs.paddingLeft), pt = pf(cs.paddingTop);
+  const innerW = rect.width - bl - pf(cs.borderRightWidth) - pl - pf(cs.paddingRight);
+  const innerH = rect.height - bt - pf(cs.borderBottomWidth) - pt - pf(cs.paddingBottom);
+  const colStarts = gridTrackStarts(columns, pf(cs.columnGap), bl + pl, innerW, cs.justifyContent);
+  const rowStarts = gridTrackStarts(rows, pf(cs.rowGap), bt + pt, innerH, cs.alignContent);
+
+  for (const child of children) {
+    // absolute 자식은 그리드 흐름 밖
+    if (child.style.position === 'absolute' || child.style.position === 'fixed') continue;
+    const { x, y, width, height } = child.rect;
+    const [c0, c1] = gridTrackRange(colStarts, columns, x, x + width);
+    const [r0, r1] = gridTrackRange(rowStarts, rows, y, y + height);
+    child.gridPlacement = { row: r0, column: c0, rowSpan: r1 - r0 + 1, columnSpan: c1 - c0 + 1 };
+  }
+
+  return { columns, rows };
+}
+
+type SegmentStyle = Omit<TextSegment, 'text'>;
+
+const SEGMENT_KEYS: (keyof SegmentStyle)[] = [
+  'color', 'fontFamily', 'fontWeight', 'italic', 'fontSize', 'textDecoration', 'letterSpacing', 'highlight',
+];
+
+function sameSegmentStyle(a: SegmentStyle, b: SegmentStyle): boolean {
+  return SEGMENT_KEYS.every((k) => a[k] === b[k]);
+}
+
+/** text-decoration-line → 세그먼트 값 (underline 우선) */
+function decorationOf(cs: CSSStyleDeclaration): TextSegment['textDecoration'] | undefined {
+  const line = cs.textDecorationLine || cs.textDecoration;
+  if (line.includes('underline')) return 'underline';
+  if (line.includes('line-through')) return 'line-through';
+  return undefined;
+}
+
+/**
+ * 인라인 요소의 computed style 중 텍스트 요소(base)와 다른 값만 추출.
+ * text-decoration은 상속되지 않지만 자손 텍스트에 그려지므로 조상 값(inherited)을 이어받는다.
+ */
+function segmentStyleOf(
+  cs: CSSStyleDeclaration,
+  base: CSSStyleDeclaration,
+  inherited: SegmentStyle,
+): SegmentStyle {
+  const style: SegmentStyle = {};
+  const color = normalizeCssColor(cs.color);
+  if (color && color !== normalizeCssColor(base.color)) style.color = color;
+  if (cs.fontFamily !== base.fontFamily) style.fontFamily = cs.fontFamily;
+  if (cs.fontWeight !== base.fontWeight) style.fontWeight = cs.fontWeight;
+  const italic = cs.fontStyle !== 'normal';
+  if (italic !== (base.fontStyle !== 'normal')) style.italic = italic;
+  if (pf(cs.fontSize) !== pf(base.fontSize)) style.fontSize = pf(cs.fontSize);
+  if (cs.letterSpacing !== base.letterSpacing) {
+    style.letterSpacing = cs.letterSpacing === 'normal' ? 0 : pf(cs.letterSpacing);
+  }
+  // 장식은 자손에서 지울 수 없음 → 텍스트 요소와 다른 선이 추가된 경우만 기록
+  const decoration = decorationOf(cs) ?? inherited.textDecoration;
+  if (decoration && decoration !== decorationOf(base)) style.textDecoration = decoration;
+  if (inherited.highlight) style.highlight = inherited.highlight;
+  return style;
+}
+
+/** 배경색이 있는 인라인 요소 → 줄별 박스 (텍스트 요소 기준 좌표) */
+function extractHighlight(el: Element, cs: CSSStyleDeclaration, origin: DOMRect): TextHighlight | undefined {
+  const color = normalizeCssColor(cs.backgroundColor);
+  if (!color || color === 'transparent' || color === 'rgba(0, 0, 0, 0)') return undefined;
+  const rects = Array.from(el.getClientRects())
+    .filter((r) => r.width >= 1 && r.height >= 1)
+    .map((r) => ({
+      x: Math.round(r.left - origin.left),
+      y: Math.round(r.top - origin.top),
+      width: Math.round(r.width),
+      height: Math.round(r.height),
+    }));
+  if (rects.length === 0) return undefined;
+  return { color, radius: pf(cs.borderTopLeftRadius), rects };
+}
+
+/**
+ * 인라인 혼합 콘텐츠를 스타일이 같은 연속 구간으로 나눈다.
  * 예: <p>텍스트<strong>볼드</strong>나머지</p>
- *   → [{ text:"텍스트", bold:false }, { text:"볼드", bold:true }, { text:"나머지", bold:false }]
+ *   → [{ text:"텍스트" }, { text:"볼드", fontWeight:"700" }, { text:"나머지" }]
+ * 중첩 인라인 요소(<a><code>, <span><strong> 등)까지 재귀로 내려가며
+ * 각 텍스트 노드에 가장 가까운 요소의 스타일을 적용한다.
  */
 function extractTextSegments(el: Element): TextSegment[] {
-  const parentColor = normalizeCssColor(window.getComputedStyle(el).color);
+  const base = window.getComputedStyle(el);
+  const origin = el.getBoundingClientRect();
   // el.textContent.trim()과 정확히 일치하는 세그먼트 배열을 생성한다.
   // trim된 전체 텍스트를 기준으로 각 세그먼트의 위치를 매핑해야
-  // code.ts의 setRangeFills/setRangeFontName offset이 정확하다.
+  // code.ts의 setRange* offset이 정확하다.
   const fullText = (el.textContent || '').trim();
   if (!fullText) return [];
 
   const segments: TextSegment[] = [];
   let cursor = 0; // fullText 내 현재 위치
 
-  for (const node of Array.from(el.childNodes)) {
-    let rawText = '';
-    let bold: boolean | undefined;
-    let color: string | undefined;
-
-    if (node.nodeType === Node.TEXT_NODE) {
-      rawText = node.textContent || '';
-    } else if (node.nodeType === Node.ELEMENT_NODE) {
-      const childEl = node as Element;
-      const childCs = window.getComputedStyle(childEl);
-      const isBold = parseInt(childCs.fontWeight) >= 700;
-      const childColor = normalizeCssColor(childCs.color);
-      rawText = childEl.textContent || '';
-      bold = isBold || undefined;
-      color = childColor && childColor !== parentColor ? childColor : undefined;
-    } else {
-      continue;
-    }
-
-    if (!rawText) continue;
-
+  const pushText = (rawText: string, style: SegmentStyle) => {
     // rawText에서 fullText[cursor..]에 매칭되는 부분만 추출
     // (앞뒤 공백, 줄바꿈 등이 trim으로 사라진 경우 보정)
     for (let i = 0; i < rawText.length && cursor < fullText.length; i++) {
       const ch = rawText[i];
       if (ch === fullText[cursor]) {
         // 이 문자는 fullText에 존재 → 현재 세그먼트에 추가
-        if (segments.length === 0 || segments[segments.length - 1].bold !== bold || segments[segments.length - 1].color !== color) {
-          segments.push({ text: ch, bold, color });
+        const last = segments[segments.length - 1];
+        if (!last || !sameSegmentStyle(last, style)) {
+          segments.push({ text: ch, ...style });
         } else {
-          segments[segments.length - 1].text += ch;
+          last.text += ch;
         }
         cursor++;
       }
       // fullText에 없는 공백/줄바꿈은 건너뜀
     }
-  }
+  };
+
+  const walk = (parent: Node, style: SegmentStyle) => {
+    for (const node of Array.from(parent.childNodes)) {
+      if (node.nodeType === Node.TEXT_NODE) {
+        pushText(node.textContent || '', style);
+      } else if (node.nodeType === Node.ELEMENT_NODE) {
+        const childEl = node as Element;
+        const cs = window.getComputedStyle(childEl);
+        // 조상 하이라이트는 자손 텍스트 뒤에도 그려짐 → 자신의 배경이 없으면 이어받음
+        const highlight = extractHighlight(childEl, cs, origin) ?? style.highlight;
+        walk(childEl, segmentStyleOf(cs, base, { ...style, highlight }));
+      }
+    }
+  };
+  walk(el, {});
 
   return segments;
 }
@@ -0,0 +1,157 @@
+/**
+ * imageLoader.ts — 브라우저(플러그인 UI) 컨텍스트에서 실행
+ *
+ * 직렬화된 트리가 참조하는 이미지 URL을 바이트로 읽어 메인 스레드로 넘긴다.
+ * Figma 샌드박스는 네트워크/DOM 접근이 없으므로 figma.createImage에 넣을
+ * PNG/JPEG/GIF 바이트를 여기서 미리 준비해야 한다.
+ */
+import type { DomNodeData, ImageAsset } from './types';
+
+// figma.createImage가 직접 받는 포맷
+const FIGMA_IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/jpg', 'image/gif']);
+
+// Figma 이미지 최대 변 길이 — 넘으면 캔버스로 축소
+const MAX_IMAGE_SIZE = 4096;
+
+/** computed background-image 값에서 url(...) 목록 추출 */
+function extractCssUrls(value: string): string[] {
+  const urls: string[] = [];
+  const re = /url\(\s*(['"]?)([\s\S]*?)\1\s*\)/gi;
+  let m;
+  while ((m = re.exec(value)) !== null) {
+    if (m[2]) urls.push(m[2]);
+  }
+  return urls;
+}
+
+/** 트리에서 참조하는 모든 이미지 URL 수집 (<img> src + background-image url, 중복 제거) */
+export function collectImageUrls(node: DomNodeData, out = new Set<string>()): Set<string> {
+  if (node.imageUrl) out.add(node.imageUrl);
+  for (const url of extractCssUrls(node.style.backgroundImage || '')) out.add(url);
+  for (const child of node.children) collectImageUrls(child, out);
+  return out;
+}
+
+/**
+ * URL별로 이미지 바이트를 읽는다.
+ * 1. data: URI → 직접 디코드
+ * 2. blob: / 동일 출처 / 로컬 파일 → fetch
+ * 3. 위가 모두 실패하면 렌더된 <img>(없으면 새 Image)를 캔버스에 그려 PNG로 추출
+ * 원격 http(s) URL은 manifest의 networkAccess가 막으므로(Tailwind CDN만 허용) 읽을 수 없다.
+ * 실패한 URL은 error에 사유를 남겨 메인 스레드가 플레이스홀더 이름에 표시한다.
+ */
+export async function loadImageAssets(
+  urls: Iterable<string>,
+  scope: Element,
+): Promise<Record<string, ImageAsset>> {
+  const assets: Record<string, ImageAsset> = {};
+  for (const url of urls) {
+    assets[url] = await loadImageAsset(url, scope);
+  }
+  return assets;
+}
+
+async function loadImageAsset(url: string, scope: Element): Promise<ImageAsset> {
+  let blob: Blob | null = null;
+  try {
+    blob = url.startsWith('data:') ? dataUriToBlob(url) : await fetchBlob(url);
+  } catch {
+    blob = null;
+  }
+
+  if (blob) {
+    try {
+      return await toFigmaAsset(blob);
+    } catch {
+      return { error: 'unsupported format' };
+    }
+  }
+
+  // 플러그인 UI는 허용 도메인 밖으로 요청할 수 없어 <img> 로드도 실패한다
+  if (/^https?:/i.test(url)) return { error: 'remote URL not allowed' };
+
+  // fetch 불가 (CORS 등) → 이미 렌더된 <img>, 없으면(background-image) 새로 로드해 캔버스로 추출
+  let imgEl = Array.from(scope.querySelectorAll('img')).find(
+    (img) => img.currentSrc === url || img.src === url,
+  );
+  if (!imgEl) {
+    imgEl = new Image();
+    imgEl.src = url;
+    try {
+      await imgEl.decode();
+    } catch {
+      return { error: 'failed to load' };
+    }
+  }
+  if (!imgEl.complete || imgEl.naturalWidth === 0) {
+    return { error: 'failed to load' };
+  }
+  try {
+    return await rasterize(imgEl, imgEl.naturalWidth, imgEl.naturalHeight);
+  } catch {
+    // 교차 출처 이미지는 캔버스를 오염(taint)시켜 toBlob이 SecurityError를 던짐
+    return { error: 'blocked by CORS' };
+  }
+}
+
+async function fetchBlob(url: string): Promise<Blob | null> {
+  const res = await fetch(url);
+  if (!res.ok) return null;
+  return res.blob();
+}
+
+function dataUriToBlob(uri: string): Blob {
+  const comma = uri.indexOf(',');
+  const meta = uri.slice(5, comma);
+  const payload = uri.slice(comma + 1);
+  const mime = meta.split(';')[0] || 'text/plain';
+  if (meta.includes(';base64')) {
+    const bin = atob(payload);
+    const bytes = new Uint8Array(bin.length);
+    for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+    return new Blob([bytes], { type: mime });
+  }
+  return new Blob([decodeURIComponent(payload)], { type: mime });
+}
+
+/** Figma가 받는 포맷·크기면 그대로, 아니면(SVG/WebP/AVIF, 4096px 초과) PNG로 변환 */
+async function toFigmaAsset(blob: Blob): Promise<ImageAsset> {
+  const bitmap = await decodeBlob(blob);
+  const { width, height } = bitmap;
+  const fitsFigma = width <= MAX_IMAGE_SIZE && height <= MAX_IMAGE_SIZE;
+  if (FIGMA_IMAGE_TYPES.has(blob.type) && fitsFigma) {
+    return { bytes: new Uint8Array(await blob.arrayBuffer()), width, height };
+  }
+  return rasterize(bitmap, width, height);
+}
+
+/** createImageBitmap은 SVG blob을 디코드하지 못하므로 <img> 로딩으로 대체 */
+async function decodeBlob(blob: Blob): Promise<ImageBitmap | HTMLImageElement> {
+  if (blob.type !== 'image/svg+xml') return createImageBitmap(blob);
+  const url = URL.createObjectURL(blob);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * 캔버스에 그려 PNG 바이트로 추출 (4096px 초과 시 비율 유지 축소).
+ * width/height는 원본 크기로 보고(CSS의 고유 크기), 축소된 실제 픽셀 너비는 pixelWidth로 따로 보고한다.
+ */
+async function rasterize(source: CanvasImageSource, width: number, height: number): Promise<ImageAsset> {
+  const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(width, height, 1));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(Math.round(width * scale), 1);
+  canvas.height = Math.max(Math.round(height * scale), 1);
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const png = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((b) => (b ? resolve(b) : reject(new Error('toBlob failed'))), 'image/png');
+  });
+  return { bytes: new Uint8Array(await png.arrayBuffer()), width, height, pixelWidth: canvas.width };
+}
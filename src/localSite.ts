@@ -0,0 +1,341 @@
+/**
+ * localSite.ts — 브라우저(플러그인 UI) 컨텍스트에서 실행
+ *
+ * 로컬 .html 파일, 폴더, 빌드된 정적 사이트 .zip을 읽어 가져오기용 HTML 하나로 만든다.
+ * 상대 경로로 참조한 파일(<link> CSS, @font-face 폰트, <img>, SVG 스프라이트 등)은
+ * blob: URL로 바꿔 플러그인 UI 문서 안에서 그대로 렌더되게 한다.
+ * blob: URL에는 디렉터리 개념이 없으므로 CSS 파일 안의 url()·@import도 파일 위치 기준으로 미리 풀어 쓴다.
+ */
+
+/** 사이트 루트 기준 경로("assets/app.css")와 내용 */
+export interface LocalFile {
+  path: string;
+  blob: Blob;
+}
+
+export interface LocalSite {
+  name: string;        // 진입 HTML 경로
+  html: string;        // 상대 URL을 blob: URL로 바꾼 문서
+  fileCount: number;
+  missing: string[];   // 참조했지만 찾지 못한 경로
+  urls: string[];      // releaseLocalSite에서 해제할 blob: URL
+}
+
+// 확장자 → MIME (zip 항목·일부 드롭 파일은 type이 비어 있음 — imageLoader가 type으로 포맷을 판단)
+const MIME_TYPES: Record<string, string> = {
+  html: 'text/html', htm: 'text/html', css: 'text/css', js: 'text/javascript', mjs: 'text/javascript',
+  json: 'application/json', svg: 'image/svg+xml', png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg',
+  gif: 'image/gif', webp: 'image/webp', avif: 'image/avif', ico: 'image/x-icon', woff: 'font/woff',
+  woff2: 'font/woff2', ttf: 'font/ttf', otf: 'font/otf', mp4: 'video/mp4', webm: 'video/webm',
+};
+
+// 로컬 파일로 풀지 않는 참조: 스킴이 있는 URL(http:, data:, blob: …), 프로토콜 상대 URL, 문서 내부 #앵커
+const EXTERNAL_URL = /^([a-z][a-z\d+.-]*:|\/\/|#)/i;
+
+// 운영체제가 만든 부산물
+const JUNK_PATH = /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$)/;
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// ─── 파일 수집 ────────────────────────────────────────────────
+
+/**
+ * 드롭된 파일·폴더 수집.
+ * DataTransferItem은 drop 이벤트가 끝나면 비워지므로 엔트리는 첫 await 전에 모두 꺼낸다.
+ */
+export function filesFromDataTransfer(dt: DataTransfer): Promise<LocalFile[]> {
+  const entries = Array.from(dt.items)
+  .map((item) => item.webkitGetAsEntry?.())
+  .filter((e): e is FileSystemEntry => !!e);
+  if (entries.length === 0) return Promise.resolve(filesFromInput(dt.files));
+  return (async () => {
+    const files: LocalFile[] = [];
+    for (const entry of entries) await readEntry(entry, files);
+    return files;
+  })();
+}
+
+/** <input type="file">(폴더 선택이면 webkitRelativePath 포함) */
+export function filesFromInput(list: FileList): LocalFile[] {
+  return Array.from(list, (file) => ({path: normalizePath(file.webkitRelativePath || file.name), blob: file}));
+}
+
+async function readEntry(entry: FileSystemEntry, out: LocalFile[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    out.push({path: normalizePath(entry.fullPath), blob: file});
+    return;
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // readEntries는 한 번에 일부만 돌려주므로 빈 배열이 나올 때까지 반복
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    for (const child of batch) await readEntry(child, out);
+  }
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^\.?\/+/, '');
+}
+
+function dirname(path: string): string {
+  const i = path.lastIndexOf('/');
+  return i < 0 ? '' : path.slice(0, i);
+}
+
+function extension(path: string): string {
+  const m = path.match(/\.([a-z\d]+)$/i);
+  return m ? m[1].toLowerCase() : '';
+}
+
+// ─── zip ──────────────────────────────────────────────────────
+
+/**
+ * zip 항목을 LocalFile로 펼친다 (저장·deflate 방식만, ZIP64·암호화 미지원).
+ * 로컬 헤더의 크기 필드는 데이터 디스크립터를 쓰면 0이므로 중앙 디렉터리 값을 쓴다.
+ */
+async function unzip(zip: LocalFile): Promise<LocalFile[]> {
+  const buf = new Uint8Array(await zip.blob.arrayBuffer());
+  const view = new DataView(buf.buffer);
+
+  // End of central directory — 끝의 주석(최대 65535바이트)을 건너뛰며 역방향 탐색
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error(`${zip.path}: zip 파일을 읽을 수 없습니다.`);
+
+  const prefix = dirname(zip.path);
+  const decoder = new TextDecoder();
+  const files: LocalFile[] = [];
+  const count = view.getUint16(eocd + 10, true);
+  let p = view.getUint32(eocd + 16, true);
+  for (let n = 0; n < count && view.getUint32(p, true) === 0x02014b50; n++) {
+    const flags = view.getUint16(p + 8, true);
+    const method = view.getUint16(p + 10, true);
+    const size = view.getUint32(p + 20, true);
+    const nameLength = view.getUint16(p + 28, true);
+    const header = view.getUint32(p + 42, true);
+    const name = decoder.decode(buf.subarray(p + 46, p + 46 + nameLength));
+    p += 46 + nameLength + view.getUint16(p + 30, true) + view.getUint16(p + 32, true);
+
+    if (name.endsWith('/') || (flags & 1) || (method !== 0 && method !== 8)) continue;
+    const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+    const raw = new Blob([buf.subarray(start, start + size)]);
+    const blob = method === 0
+      ? raw
+      : await new Response(raw.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+    files.push({path: normalizePath(prefix ? `${prefix}/${name}` : name), blob});
+  }
+  return files;
+}
+
+// ─── 참조 해석 ────────────────────────────────────────────────
+
+interface SiteContext {
+  files: Map<string, LocalFile>;
+  lower: Map<string, LocalFile>;      // 대소문자만 다른 참조용 (Windows/macOS에서 만든 사이트)
+  root: string;                        // "/"로 시작하는 참조의 기준 (진입 HTML 폴더)
+  urls: Map<string, string>;          // 경로 → blob: URL
+  loading: Set<string>;               // @import 순환 방지
+  missing: Set<string>;
+}
+
+function lookup(ctx: SiteContext, path: string): LocalFile | undefined {
+  return ctx.files.get(path) ?? ctx.lower.get(path.toLowerCase());
+}
+
+/** 참조 → 사이트 루트 기준 경로와 #조각. 외부 URL이면 null */
+function resolveRef(ref: string, dir: string, root: string): { path: string; hash: string } | null {
+  const trimmed = ref.trim();
+  if (!trimmed || EXTERNAL_URL.test(trimmed)) return null;
+  const hashAt = trimmed.indexOf('#');
+  const hash = hashAt < 0 ? '' : trimmed.slice(hashAt);
+  let path = (hashAt < 0 ? trimmed : trimmed.slice(0, hashAt)).replace(/\?.*$/, '');
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    // 잘못된 퍼센트 인코딩은 그대로
+  }
+  const parts: string[] = [];
+  for (const segment of `${path.startsWith('/') ? root : dir}/${path}`.split('/')) {
+    if (!segment || segment === '.') continue;
+    if (segment === '..') parts.pop();
+    else parts.push(segment);
+  }
+  return {path: parts.join('/'), hash};
+}
+
+/** 파일 하나의 blob: URL (CSS는 안쪽 참조를 풀어 쓴 뒤 만든다) */
+async function fileUrl(ctx: SiteContext, file: LocalFile): Promise<string> {
+  const cached = ctx.urls.get(file.path);
+  if (cached) return cached;
+  const type = file.blob.type || MIME_TYPES[extension(file.path)] || '';
+  let blob = file.blob.type ? file.blob : file.blob.slice(0, file.blob.size, type);
+  if (type === 'text/css' && !ctx.loading.has(file.path)) {
+    ctx.loading.add(file.path);
+    const css = await rewriteCss(ctx, await file.blob.text(), dirname(file.path));
+    ctx.loading.delete(file.path);
+    blob = new Blob([css], {type});
+  }
+  const url = URL.createObjectURL(blob);
+  ctx.urls.set(file.path, url);
+  return url;
+}
+
+/** 상대 참조를 blob: URL로 — 외부 URL은 그대로, 찾지 못한 파일은 기록만 하고 그대로 둔다 */
+async function rewriteRef(ctx: SiteContext, ref: string, dir: string): Promise<string> {
+  const resolved = resolveRef(ref, dir, ctx.root);
+  if (!resolved) return ref;
+  const file = lookup(ctx, resolved.path);
+  if (!file) {
+    ctx.missing.add(resolved.path);
+    return ref;
+  }
+  return (await fileUrl(ctx, file)) + resolved.hash;
+}
+
+async function replaceAsync(
+  text: string,
+  re: RegExp,
+  replace: (...groups: string[]) => Promise<string>,
+): Promise<string> {
+  // 같은 파일을 두 번 만들지 않도록(fileUrl 캐시) 순서대로 기다린다
+  let out = '';
+  let last = 0;
+  for (const m of text.matchAll(re)) {
+    out += text.slice(last, m.index) + await replace(...m);
+    last = m.index! + m[0].length;
+  }
+  return out + text.slice(last);
+}
+
+async function rewriteCss(ctx: SiteContext, css: string, dir: string): Promise<string> {
+  const imported = await replaceAsync(css, /@import\s+(['"])([^'"]+)\1/g,
+    async (_, quote, ref) => `@import ${quote}${await rewriteRef(ctx, ref, dir)}${quote}`);
+  return replaceAsync(imported, /url\(\s*(['"]?)([^'")]*)\1\s*\)/g,
+    async (_, quote, ref) => `url(${quote}${await rewriteRef(ctx, ref, dir)}${quote})`);
+}
+
+/** srcset="a.png 1x, b.png 2x" — 후보마다 URL만 교체 */
+async function rewriteSrcset(ctx: SiteContext, srcset: string, dir: string): Promise<string> {
+  const candidates: string[] = [];
+  for (const candidate of srcset.split(/,\s+/)) {
+    const [url, ...descriptors] = candidate.trim().split(/\s+/);
+    candidates.push([await rewriteRef(ctx, url, dir), ...descriptors].join(' '));
+  }
+  return candidates.join(', ');
+}
+
+// ─── HTML 재작성 ──────────────────────────────────────────────
+
+// 파일을 가리키는 속성 (선택자, 속성)
+const URL_ATTRIBUTES: [string, string][] = [
+  ['img, source, video, audio, track, iframe, embed, script, input', 'src'],
+  ['link[rel~="stylesheet"], link[rel~="preload"], link[rel~="icon"]', 'href'],
+  ['video', 'poster'],
+  ['object', 'data'],
+  ['image', 'href'],
+  ['image', 'xlink:href'],
+];
+
+/**
+ * <use href="icons.svg#id">는 blob: URL로 바꿔도 serializeSvg가 문서 안의 #id만 찾으므로,
+ * 스프라이트 파일의 내용을 숨긴 <svg data-figma-ignore>에 옮기고 참조를 #id로 바꾼다.
+ */
+async function inlineSprites(ctx: SiteContext, doc: Document, dir: string): Promise<void> {
+  let host: SVGSVGElement | null = null;
+  const loaded = new Map<string, boolean>();
+  for (const use of Array.from(doc.querySelectorAll('use'))) {
+    const attr = use.hasAttribute('href') ? 'href' : 'xlink:href';
+    const resolved = resolveRef(use.getAttribute(attr) ?? '', dir, ctx.root);
+    if (!resolved || !resolved.hash) continue;
+
+    if (!loaded.has(resolved.path)) {
+      const file = lookup(ctx, resolved.path);
+      const sprite = file && new DOMParser().parseFromString(await file.blob.text(), 'image/svg+xml');
+      const ok = !!sprite && !sprite.querySelector('parsererror');
+      if (ok) {
+        if (!host) {
+          host = doc.createElementNS(SVG_NS, 'svg');
+          host.setAttribute('style', 'display:none');
+          host.setAttribute('aria-hidden', 'true');
+          host.setAttribute('data-figma-ignore', '');
+          doc.body.appendChild(host);
+        }
+        for (const child of Array.from(sprite!.documentElement.children)) host.appendChild(doc.importNode(child, true));
+      } else {
+        ctx.missing.add(resolved.path);
+      }
+      loaded.set(resolved.path, ok);
+    }
+    if (loaded.get(resolved.path)) {
+      use.removeAttribute('xlink:href');
+      use.setAttribute('href', resolved.hash);
+    }
+  }
+}
+
+/**
+ * 파일 목록 → 렌더 가능한 HTML.
+ * .zip은 펼쳐서 합치고, 진입 문서는 가장 얕은 index.html(없으면 가장 얕은 .html).
+ */
+export async function loadLocalSite(input: LocalFile[]): Promise<LocalSite> {
+  const files: LocalFile[] = [];
+  for (const file of input) {
+    if (JUNK_PATH.test(file.path)) continue;
+    if (extension(file.path) === 'zip') files.push(...(await unzip(file)).filter((f) => !JUNK_PATH.test(f.path)));
+    else files.push(file);
+  }
+
+  const depth = (f: LocalFile) => f.path.split('/').length;
+  const isIndex = (f: LocalFile) => /(^|\/)index\.html?$/i.test(f.path);
+  const entry = files
+  .filter((f) => /\.html?$/i.test(f.path))
+  .sort((a, b) => depth(a) - depth(b) || Number(isIndex(b)) - Number(isIndex(a)) || a.path.localeCompare(b.path))[0];
+  if (!entry) throw new Error('HTML 파일이 없습니다. .html 파일, 사이트 폴더 또는 .zip을 선택하세요.');
+
+  const dir = dirname(entry.path);
+  const ctx: SiteContext = {
+    files: new Map(files.map((f) => [f.path, f])),
+    lower: new Map(files.map((f) => [f.path.toLowerCase(), f])),
+    root: dir,
+    urls: new Map(),
+    loading: new Set(),
+    missing: new Set(),
+  };
+
+  const doc = new DOMParser().parseFromString(await entry.blob.text(), 'text/html');
+  for (const [selector, attr] of URL_ATTRIBUTES) {
+    for (const el of Array.from(doc.querySelectorAll(selector))) {
+      const value = el.getAttribute(attr);
+      if (value) el.setAttribute(attr, await rewriteRef(ctx, value, dir));
+    }
+  }
+  for (const el of Array.from(doc.querySelectorAll('img[srcset], source[srcset]'))) {
+    el.setAttribute('srcset', await rewriteSrcset(ctx, el.getAttribute('srcset')!, dir));
+  }
+  for (const el of Array.from(doc.querySelectorAll('[style]'))) {
+    el.setAttribute('style', await rewriteCss(ctx, el.getAttribute('style')!, dir));
+  }
+  for (const style of Array.from(doc.querySelectorAll('style'))) {
+    style.textContent = await rewriteCss(ctx, style.textContent ?? '', dir);
+  }
+  await inlineSprites(ctx, doc, dir);
+
+  return {
+    name: entry.path,
+    html: `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`,
+    fileCount: files.length,
+    missing: Array.from(ctx.missing).sort(),
+    urls: Array.from(ctx.urls.values()),
+  };
+}
+
+export function releaseLocalSite(site: LocalSite): void {
+  for (const url of site.urls) URL.revokeObjectURL(url);
+}
@@ -4,6 +4,10 @@ export interface DomStyleData {
   // 배경
   backgroundColor: string;
   backgroundImage: string;
+  backgroundSize: string;
+  backgroundPosition: string;
+  backgroundRepeat: string;
+  backgroundClipText: boolean;  // background-clip: text → 배경을 글자 채우기로 사용
 
   // 텍스트
   color: string;
@@ -15,6 +19,11 @@ export interface DomStyleData {
   textAlign: string;
   letterSpacing: string;
   textDecoration: string;
+  textTransform: string;
+  textShadow: string;
+  textOverflow: string;
+  whiteSpace: string;
+  lineClamp: number;  // -webkit-line-clamp (0 = none)
 
   // 테두리
   borderTopLeftRadius: number;
@@ -25,12 +34,32 @@ export interface DomStyleData {
   borderRightWidth: number;
   borderBottomWidth: number;
   borderLeftWidth: number;
-  borderColor: string;
-  borderStyle: string;
+  borderColor: string;  // 대표 색상 (첫 번째 보이는 면)
+  borderStyle: string;  // 대표 스타일 (첫 번째 non-none 면)
+  borderTopColor: string;
+  borderRightColor: string;
+  borderBottomColor: string;
+  borderLeftColor: string;
+  borderTopStyle: string;
+  borderRightStyle: string;
+  borderBottomStyle: string;
+  borderLeftStyle: string;
+
+  // 외곽선 (레이아웃에 영향 없이 border-box 바깥에 그려짐)
+  outlineWidth: number;
+  outlineStyle: string;
+  outlineColor: string;
+  outlineOffset: number;
+
+  // 이미지 (<img> object-fit / object-position)
+  objectFit: string;
+  objectPosition: string;
 
   // 기타 시각
   opacity: number;
   boxShadow: string;
+  filter: string;
+  backdropFilter: string;
   overflow: string;
 
   // 레이아웃
@@ -45,21 +74,87 @@ export interface DomStyleData {
   paddingBottom: number;
   paddingLeft: number;
   position: string;
+  flexWrap: string;
+  flexGrow: number;
+  alignSelf: string;
+}
+
+/**
+ * 인라인 배경 하이라이트 (<mark>, 인라인 <code> 등).
+ * rects는 텍스트 요소 박스 기준 좌표 — 줄바꿈된 인라인 요소는 줄마다 rect가 하나씩.
+ */
+export interface TextHighlight {
+  color: string;
+  radius: number;
+  rects: { x: number; y: number; width: number; height: number }[];
 }
 
-/** 인라인 혼합 콘텐츠의 스타일 세그먼트 (bold 등) */
+/**
+ * 인라인 혼합 콘텐츠의 스타일 세그먼트.
+ * 각 필드는 텍스트 요소 자체 스타일과 다를 때만 채워진다.
+ */
 export interface TextSegment {
   text: string;
-  bold?: boolean;
-  color?: string;  // 부모와 다른 색상일 때 개별 색상
+  color?: string;
+  fontFamily?: string;     // CSS font-family 원문
+  fontWeight?: string;
+  italic?: boolean;
+  fontSize?: number;
+  textDecoration?: 'underline' | 'line-through';
+  letterSpacing?: number;  // px
+  highlight?: TextHighlight;  // 같은 요소에서 나온 세그먼트는 같은 객체를 공유
+}
+
+/** display:grid 컨테이너의 해석된 트랙 크기 (px, computed grid-template-* 기준) */
+export interface DomGridData {
+  columns: number[];
+  rows: number[];
+}
+
+/** 그리드 아이템의 셀 배치 (0-based 인덱스) */
+export interface DomGridPlacement {
+  row: number;
+  column: number;
+  rowSpan: number;
+  columnSpan: number;
+}
+
+/**
+ * CSS transform (translate/rotate/scale 개별 속성 포함) 합성 결과.
+ * matrix는 DOMMatrix의 [a, b, c, d, e, f], origin은 요소 박스 기준 px.
+ * 이 값이 있으면 rect는 변환 전 레이아웃 박스다.
+ */
+export interface DomTransformData {
+  matrix: [number, number, number, number, number, number];
+  originX: number;
+  originY: number;
+}
+
+/**
+ * 원본 HTML의 data-figma-* 속성으로 지정한 가져오기 힌트.
+ * data-figma-ignore는 직렬화 단계에서 하위 트리째 제외하므로 여기에 남지 않는다.
+ */
+export interface FigmaHints {
+  name?: string;           // data-figma-name — 레이어 이름
+  component?: string;      // data-figma-component — 컴포넌트로 (같은 값끼리는 첫 요소의 인스턴스, 값이 없으면 단독)
+  autoLayout?: 'auto' | 'horizontal' | 'vertical' | 'off';  // data-figma-autolayout — 레이아웃 모드와 무관하게 강제
+  flatten?: 'vector' | 'image';  // data-figma-flatten — 하나의 벡터로 병합 / PNG로 래스터화
 }
 
 export interface DomNodeData {
   tagName: string;
+  className?: string;      // class 속성 (Tailwind 클래스 → 스타일 이름 힌트)
+  elementId?: string;      // id 속성
+  role?: string;           // role 속성 (명시된 경우만)
+  ariaLabel?: string;      // aria-label, 없으면 <img> alt
+  figma?: FigmaHints;      // data-figma-* 가져오기 힌트
   text?: string;           // 텍스트 리프 노드의 텍스트 콘텐츠
-  textSegments?: TextSegment[];  // 인라인 혼합 콘텐츠의 볼드 세그먼트
+  textSegments?: TextSegment[];  // 인라인 혼합 콘텐츠의 범위별 스타일
   imageUrl?: string;       // <img> src
   svgHtml?: string;        // <svg> 직렬화 HTML (<use> 참조 인라인 처리 후)
+  grid?: DomGridData;      // display:grid 컨테이너의 트랙 정보
+  gridPlacement?: DomGridPlacement;  // 그리드 컨테이너 자식의 셀 배치
+  transform?: DomTransformData;      // CSS transform (rect는 변환 전 박스)
   rect: {
     x: number;            // 부모 기준 상대 좌표
     y: number;
@@ -71,21 +166,134 @@ export interface DomNodeData {
   children: DomNodeData[];
 }
 
+/** UI에서 읽어 들인 이미지 바이트 — imageUrl을 키로 전달 */
+export interface ImageAsset {
+  bytes?: Uint8Array;      // PNG/JPEG/GIF (figma.createImage 입력)
+  width?: number;          // 원본 픽셀 크기 (object-fit / background-size 계산용)
+  height?: number;
+  pixelWidth?: number;     // bytes의 실제 픽셀 너비 (4096px 초과로 축소했으면 width보다 작음)
+  error?: string;          // 읽기 실패 사유 (플레이스홀더 레이어 이름에 표시)
+}
+
+// ─── 가져오기 옵션 ────────────────────────────────────────────
+
+/** 문서에 선언된 전역 CSS 커스텀 속성 (계산값, 색상은 rgb()/rgba()로 정규화) */
+export interface CssVariable {
+  name: string;            // "--brand-primary"
+  kind: 'color' | 'number' | 'length' | 'shadow' | 'other';
+  value: string;           // length는 px, shadow는 computed box-shadow
+}
+
+/**
+ * absolute    — 모든 자식을 부모 기준 절대 좌표로 배치 (픽셀 재현 우선)
+ * auto-layout — display:flex/grid 요소를 Figma Auto Layout 프레임으로 재구성
+ */
+export type LayoutMode = 'absolute' | 'auto-layout';
+
+/**
+ * 레이어 이름 규칙
+ * semantic — 태그(또는 role) + 의미 있는 클래스 + 레이블: header.site-nav, button "Sign up"
+ * bem      — BEM 클래스 이름: card__title
+ * id-first — #id, 없으면 태그.클래스
+ * tag      — 태그 이름만 (div, section …)
+ */
+export type LayerNaming = 'semantic' | 'bem' | 'id-first' | 'tag';
+
+export interface ImportOptions {
+  layoutMode: LayoutMode;
+  layerNaming: LayerNaming;
+  wrapInSection: boolean;  // 여러 너비를 가져올 때 루트 프레임들을 섹션으로 묶기
+  updateSelection: boolean;  // 선택한 기존 가져오기 프레임을 제자리 업데이트
+  createStyles: boolean;   // 같은 색상·타이포·그림자를 로컬 스타일로 묶어 연결
+  createVariables: boolean;  // CSS 변수·Tailwind 테마 토큰을 Figma 변수로 만들어 바인딩
+  createComponents: boolean; // 구조가 같은 반복 하위 트리를 컴포넌트 + 인스턴스로
+  componentMinRepeat: number;  // 컴포넌트로 만들 최소 반복 횟수 (2 이상)
+  componentMinNodes: number;   // 컴포넌트로 만들 하위 트리의 최소 노드 수
+}
+
+/**
+ * HTML 내보내기 스타일 형식
+ * inline  — 요소마다 style 속성
+ * classes — 레이어 이름에서 딴 클래스 + 앞쪽 <style> 블록
+ */
+export type HtmlExportMode = 'inline' | 'classes';
+
+/** 사용자 지정 폰트 매핑 (clientStorage에 저장) — CSS font-family 이름 → Figma 패밀리 */
+export interface FontMapping {
+  css: string;
+  figma: string;
+}
+
+/** 요청한 폰트 대신 다른 폰트가 로드된 경우 (요청·실제 조합별) */
+export interface FontSubstitution {
+  requested: string;   // "Brand Sans · 450 Italic"
+  loaded: string;      // "Inter · Medium Italic"
+  nodeIds: string[];   // 영향받은 텍스트 노드
+}
+
 // ─── 메시지 타입 ──────────────────────────────────────────────
 
 // UI → Main
+/** 렌더 너비 하나의 직렬화 결과 */
+export interface ImportBreakpoint {
+  width: number;
+  label: string;           // "Mobile" — 여러 너비를 가져올 때 루트 프레임 이름에 사용
+  data: DomNodeData;
+}
+
 export interface ImportDomMessage {
   type: 'import-dom';
-  data: DomNodeData;
+  breakpoints: ImportBreakpoint[];   // 너비 오름차순
+  options: ImportOptions;
+  images: Record<string, ImageAsset>;
+  variables: CssVariable[];
+}
+
+export interface GetFontSettingsMessage {
+  type: 'get-font-settings';
+}
+
+export interface SaveFontMappingsMessage {
+  type: 'save-font-mappings';
+  mappings: FontMapping[];
+}
+
+export interface SelectNodesMessage {
+  type: 'select-nodes';
+  nodeIds: string[];
+}
+
+/** 현재 선택을 HTML/CSS로 내보내기 */
+export interface ExportHtmlMessage {
+  type: 'export-html';
+  mode: HtmlExportMode;
 }
 
-export type UIToMainMessage = ImportDomMessage;
+export type UIToMainMessage =
+  | ImportDomMessage
+  | GetFontSettingsMessage
+  | SaveFontMappingsMessage
+  | SelectNodesMessage
+  | ExportHtmlMessage;
 
 // Main → UI
+/** 제자리 업데이트 결과 (교체된 노드는 제거 + 추가로 셈) */
+export interface ImportUpdateStats {
+  updated: number;   // 유지하고 속성만 갱신
+  added: number;
+  removed: number;
+}
+
 export interface ImportDoneMessage {
   type: 'import-done';
   frameCount: number;
   textCount: number;
+  componentCount: number;
+  instanceCount: number;
+  update: ImportUpdateStats | null;  // 업데이트 모드에서 기존 프레임을 갱신한 경우
+  styleCount: number;      // 만들거나 재사용해 연결한 로컬 스타일 수
+  warnings: string[];      // 변환하지 못하고 생략한 CSS 기능
+  fontSubstitutions: FontSubstitution[];
 }
 
 export interface ImportErrorMessage {
@@ -93,4 +301,27 @@ export interface ImportErrorMessage {
   error: string;
 }
 
-export type MainToUIMessage = ImportDoneMessage | ImportErrorMessage;
+export interface FontSettingsMessage {
+  type: 'font-settings';
+  mappings: FontMapping[];
+  families: string[];      // Figma에서 사용 가능한 폰트 패밀리 (이름순)
+}
+
+export interface ExportHtmlDoneMessage {
+  type: 'export-html-done';
+  html: string;
+  nodeCount: number;       // 내보낸 레이어 수
+  warnings: string[];      // 근사하거나 생략한 Figma 속성
+}
+
+export interface ExportHtmlErrorMessage {
+  type: 'export-html-error';
+  error: string;
+}
+
+export type MainToUIMessage =
+  | ImportDoneMessage
+  | ImportErrorMessage
+  | FontSettingsMessage
+  | ExportHtmlDoneMessage
+  | ExportHtmlErrorMessage;
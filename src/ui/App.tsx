@@ -1,22 +1,48 @@
 import React, {useCallback, useEffect, useRef, useState} from 'react';
+import {collectCssVariables} from '../cssVariables';
 import {serializeDom} from '../domSerializer';
-import type {DomNodeData, MainToUIMessage} from '../types';
+import {collectImageUrls, loadImageAssets} from '../imageLoader';
+import {filesFromDataTransfer, filesFromInput, loadLocalSite, releaseLocalSite} from '../localSite';
+import type {LocalFile, LocalSite} from '../localSite';
+import FontMappingEditor from './FontMappingEditor';
+import HtmlExportPanel from './HtmlExportPanel';
+import type {
+  CssVariable, DomNodeData, FontSubstitution, ImageAsset, ImportBreakpoint, ImportOptions, ImportUpdateStats,
+  LayerNaming, LayoutMode, MainToUIMessage,
+} from '../types';
 
 const WIDTH_OPTIONS = [
-  {label: '375px — Mobile', value: 375},
-  {label: '768px — Tablet', value: 768},
-  {label: '1440px — Desktop', value: 1440},
-  {label: '1920px — Wide', value: 1920},
-  {label: '2880px — Multi-screen', value: 2880},
-  {label: '3840px — Extra Wide', value: 3840},
+  {label: 'Mobile', value: 375},
+  {label: 'Tablet', value: 768},
+  {label: 'Desktop', value: 1440},
+  {label: 'Wide', value: 1920},
+  {label: 'Multi-screen', value: 2880},
+  {label: 'Extra Wide', value: 3840},
 ];
 
-type Status = 'idle' | 'rendering' | 'parsing' | 'building' | 'done' | 'error';
+// 직접 입력 너비 허용 범위
+const MIN_CUSTOM_WIDTH = 200;
+const MAX_CUSTOM_WIDTH = 7680;
+
+const LAYOUT_OPTIONS: { label: string; value: LayoutMode }[] = [
+  {label: '절대 위치 — 픽셀 그대로', value: 'absolute'},
+  {label: 'Auto Layout — flex·grid 재구성', value: 'auto-layout'},
+];
+
+const NAMING_OPTIONS: { label: string; value: LayerNaming }[] = [
+  {label: '시맨틱 — header.site-nav, button "가입"', value: 'semantic'},
+  {label: 'BEM 클래스 — card__title', value: 'bem'},
+  {label: 'id 우선 — #pricing', value: 'id-first'},
+  {label: '태그만 — div', value: 'tag'},
+];
+
+type Status = 'idle' | 'rendering' | 'parsing' | 'images' | 'building' | 'done' | 'error';
 
 const STATUS_LABEL: Record<Status, string> = {
   idle: '',
   rendering: 'HTML 렌더링 중...',
   parsing: 'DOM 스타일 분석 중...',
+  images: '이미지 읽는 중...',
   building: 'Figma 노드 생성 중...',
   done: '',
   error: '',
@@ -24,11 +50,35 @@ const STATUS_LABEL: Record<Status, string> = {
 
 export default function App() {
   const [html, setHtml] = useState('');
-  const [renderWidth, setRenderWidth] = useState(1440);
+  const [presetWidths, setPresetWidths] = useState<number[]>([1440]);
+  const [customWidths, setCustomWidths] = useState('');
+  const [wrapInSection, setWrapInSection] = useState(true);
+  const [updateSelection, setUpdateSelection] = useState(false);
+  const [currentWidth, setCurrentWidth] = useState<number | null>(null);
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>('absolute');
+  const [layerNaming, setLayerNaming] = useState<LayerNaming>('semantic');
+  const [createStyles, setCreateStyles] = useState(false);
+  const [createVariables, setCreateVariables] = useState(false);
+  const [createComponents, setCreateComponents] = useState(false);
+  const [componentMinRepeat, setComponentMinRepeat] = useState(3);
+  const [componentMinNodes, setComponentMinNodes] = useState(4);
   const [status, setStatus] = useState<Status>('idle');
-  const [result, setResult] = useState<{ frameCount: number; textCount: number } | null>(null);
+  const [result, setResult] = useState<{
+    frameCount: number;
+    textCount: number;
+    componentCount: number;
+    instanceCount: number;
+    update: ImportUpdateStats | null;
+    styleCount: number;
+    warnings: string[];
+    fontSubstitutions: FontSubstitution[];
+  } | null>(null);
   const [error, setError] = useState('');
+  const [localSite, setLocalSite] = useState<LocalSite | null>(null);
+  const [dragging, setDragging] = useState(false);
   const containerRef = useRef<HTMLDivElement | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
 
   // Figma main thread 메시지 수신
   useEffect(() => {
@@ -37,7 +87,16 @@ export default function App() {
       if (!msg) return;
       if (msg.type === 'import-done') {
         setStatus('done');
-        setResult({frameCount: msg.frameCount, textCount: msg.textCount});
+        setResult({
+          frameCount: msg.frameCount,
+          textCount: msg.textCount,
+          componentCount: msg.componentCount,
+          instanceCount: msg.instanceCount,
+          update: msg.update,
+          styleCount: msg.styleCount,
+          warnings: msg.warnings,
+          fontSubstitutions: msg.fontSubstitutions,
+        });
       } else if (msg.type === 'import-error') {
         setStatus('error');
         setError(msg.error);
@@ -48,7 +107,8 @@ export default function App() {
   }, []);
 
   const handleImport = useCallback(async () => {
-    if (!html.trim()) return;
+    const widths = selectedWidths(presetWidths, customWidths);
+    if (!html.trim() || widths.length === 0) return;
 
     setStatus('rendering');
     setError('');
@@ -64,94 +124,177 @@ export default function App() {
     // tailwind.config = {...} 가 실행되어야 커스텀 색상이 동작한다.
     const injectedScripts = injectInlineScripts(html);
 
-    // ── 1-b. <head> 내 <style> 태그를 document.head에 주입 ──
+    // ── 1-b. <link rel="stylesheet"> 로드 (로컬 사이트는 blob: URL) ──
+    const injectedLinks = await injectStylesheetLinks(html);
+
+    // ── 1-c. <head> 내 <style> 태그를 document.head에 주입 ──
     // extractBodyContent는 <body> 내용만 가져오므로
     // <head>의 CSS가 날아가는 문제를 여기서 보완한다.
     const injectedStyle = injectHeadStyles(html);
 
-    // ── 2. 렌더 컨테이너 생성 ──────────────────────────────
-    const container = document.createElement('div');
-    container.style.cssText = [
-      'position:fixed',
-      `left:${-(renderWidth + 500)}px`,
-      'top:0',
-      `width:${renderWidth}px`,
-      'pointer-events:none',
-      'z-index:-9999',
-      'overflow:visible',
-    ].join(';');
-
-    // body 태그의 class/style 속성을 컨테이너에 그대로 적용
-    // (Tailwind의 flex/gap 같은 레이아웃 클래스를 살리기 위해)
-    applyBodyAttrsToContainer(html, container);
-
-    container.innerHTML = extractBodyContent(html);
-    document.body.appendChild(container);
-    containerRef.current = container;
-
-    // ── 3. 브라우저 레이아웃 + Tailwind 처리 대기 ────────────
-    // Tailwind Play CDN은 MutationObserver → rAF 배치로 동작하므로 여러 frame 대기
-    await waitFrames(4);
-
     try {
-      // ── 4. 루트 엘리먼트 탐색 ────────────────────────────
-      const root = findRenderRoot(container);
-
-      setStatus('parsing');
-      await waitFrames(1);
-
-      const rootRect = root.getBoundingClientRect();
-      // root가 container 자체인 경우 isRoot=true → position:fixed 체크 건너뜀
-      const isRoot = root === container;
-      const domData = serializeDom(root, rootRect, isRoot);
-      if (!domData) throw new Error(
-          `<${root.tagName.toLowerCase()}> 요소 크기가 0입니다.\n` +
-          'Tailwind CDN이 로드되지 않았거나 콘텐츠가 없는 요소입니다.'
-      );
-
-      // ── 5. body/html 배경을 루트 노드에 적용 ─────────────
-      // body { background: ... } CSS는 document.body에 적용되지만
-      // 직렬화는 컨테이너 자식부터 시작하므로 body 배경이 누락된다.
-      // CSS background는 상속되지 않으므로 명시적으로 복사해야 한다.
-      // html 배경도 동일하게 처리 (body 배경 없으면 html 배경을 확인).
-      applyDocumentBackground(domData);
+      // 주입한 스타일·스크립트는 공유하고 너비마다 렌더 컨테이너를 새로 만든다
+      const breakpoints: ImportBreakpoint[] = [];
+      const images: Record<string, ImageAsset> = {};
+      let variables: CssVariable[] = [];
+
+      for (const width of widths) {
+        setCurrentWidth(widths.length > 1 ? width : null);
+        setStatus('rendering');
+
+        // ── 2. 렌더 컨테이너 생성 ──────────────────────────────
+        const container = document.createElement('div');
+        container.style.cssText = [
+          'position:fixed',
+          `left:${-(width + 500)}px`,
+          'top:0',
+          `width:${width}px`,
+          'pointer-events:none',
+          'z-index:-9999',
+          'overflow:visible',
+        ].join(';');
+
+        // body 태그의 class/style 속성을 컨테이너에 그대로 적용
+        // (Tailwind의 flex/gap 같은 레이아웃 클래스를 살리기 위해)
+        applyBodyAttrsToContainer(html, container);
+
+        container.innerHTML = extractBodyContent(html);
+        document.body.appendChild(container);
+        containerRef.current = container;
+
+        // ── 3. 브라우저 레이아웃 + Tailwind 처리 대기 ────────────
+        // Tailwind Play CDN은 MutationObserver → rAF 배치로 동작하므로 여러 frame 대기
+        await waitFrames(4);
+        // @font-face 웹폰트(로컬 사이트의 blob: 폰트 포함) 로딩 완료 대기
+        await document.fonts.ready;
+
+        // ── 4. 루트 엘리먼트 탐색 ────────────────────────────
+        const root = findRenderRoot(container);
+
+        setStatus('parsing');
+        await waitFrames(1);
+
+        const rootRect = root.getBoundingClientRect();
+        // root가 container 자체인 경우 isRoot=true → position:fixed 체크 건너뜀
+        const isRoot = root === container;
+        const domData = serializeDom(root, rootRect, isRoot);
+        if (!domData) throw new Error(
+            `<${root.tagName.toLowerCase()}> 요소 크기가 0입니다 (${width}px).\n` +
+            'Tailwind CDN이 로드되지 않았거나 콘텐츠가 없는 요소입니다.'
+        );
+
+        // ── 5. body/html 배경을 루트 노드에 적용 ─────────────
+        // body { background: ... } CSS는 document.body에 적용되지만
+        // 직렬화는 컨테이너 자식부터 시작하므로 body 배경이 누락된다.
+        // CSS background는 상속되지 않으므로 명시적으로 복사해야 한다.
+        // html 배경도 동일하게 처리 (body 배경 없으면 html 배경을 확인).
+        applyDocumentBackground(domData);
+
+        // ── 6. 이미지 바이트 읽기 (렌더 컨테이너가 살아 있는 동안, 이전 너비에서 읽은 것은 재사용) ──
+        setStatus('images');
+        const urls = Array.from(collectImageUrls(domData)).filter((url) => !(url in images));
+        Object.assign(images, await loadImageAssets(urls, container));
+        // 변수·스타일 이름용 CSS 변수와 Tailwind 테마 (주입한 <style>·<script>가 남아 있는 동안 계산)
+        if (breakpoints.length === 0) variables = collectCssVariables(root);
+
+        breakpoints.push({width, label: widthLabel(width), data: domData});
+        document.body.removeChild(container);
+        containerRef.current = null;
+      }
 
       setStatus('building');
-      parent.postMessage({pluginMessage: {type: 'import-dom', data: domData}}, '*');
+      const options: ImportOptions = {
+        layoutMode,
+        layerNaming,
+        wrapInSection,
+        updateSelection,
+        createStyles,
+        createVariables,
+        createComponents,
+        componentMinRepeat,
+        componentMinNodes,
+      };
+      parent.postMessage({pluginMessage: {type: 'import-dom', breakpoints, options, images, variables}}, '*');
 
     } catch (e: any) {
       setStatus('error');
       setError(e.message ?? String(e));
-      if (containerRef.current) {
-        document.body.removeChild(containerRef.current);
-        containerRef.current = null;
-      }
     } finally {
+      setCurrentWidth(null);
       // 주입했던 <style> 제거
       if (injectedStyle && document.head.contains(injectedStyle)) {
         document.head.removeChild(injectedStyle);
       }
-      // 주입했던 <script> 제거
+      // 주입했던 <script>·<link> 제거
       for (const s of injectedScripts) {
         if (document.head.contains(s)) document.head.removeChild(s);
       }
+      for (const l of injectedLinks) {
+        if (document.head.contains(l)) document.head.removeChild(l);
+      }
       // 렌더 컨테이너 제거
       if (containerRef.current) {
         document.body.removeChild(containerRef.current);
         containerRef.current = null;
       }
     }
-  }, [html, renderWidth, status]);
+  }, [
+    html, presetWidths, customWidths, layoutMode, layerNaming, wrapInSection, updateSelection, createStyles,
+    createVariables, createComponents, componentMinRepeat, componentMinNodes, status,
+  ]);
+
+  const togglePresetWidth = (width: number) => {
+    setPresetWidths((prev) => (prev.includes(width) ? prev.filter((w) => w !== width) : [...prev, width]));
+  };
+
+  // 리포트의 영향받은 레이어를 Figma에서 선택
+  const selectLayers = (nodeIds: string[]) => {
+    parent.postMessage({pluginMessage: {type: 'select-nodes', nodeIds}}, '*');
+  };
 
   const handleReset = () => {
     setStatus('idle');
     setResult(null);
     setError('');
     setHtml('');
+    if (localSite) releaseLocalSite(localSite);
+    setLocalSite(null);
   };
 
-  const isImporting = status === 'rendering' || status === 'parsing' || status === 'building';
-  const canImport = !isImporting && html.trim().length > 0;
+  // 로컬 파일·폴더·zip → blob: URL로 바꾼 HTML을 입력란에 채움
+  const openLocalFiles = async (pending: Promise<LocalFile[]> | LocalFile[]) => {
+    setStatus('idle');
+    setResult(null);
+    setError('');
+    try {
+      const site = await loadLocalSite(await pending);
+      if (localSite) releaseLocalSite(localSite);
+      setLocalSite(site);
+      setHtml(site.html);
+    } catch (e: any) {
+      setStatus('error');
+      setError(e.message ?? String(e));
+    }
+  };
+
+  // 텍스트를 끌어다 놓는 경우는 textarea 기본 동작에 맡김
+  const hasFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    setDragging(false);
+    if (!isImporting) void openLocalFiles(filesFromDataTransfer(e.dataTransfer));
+  };
+
+  const handlePick = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) void openLocalFiles(filesFromInput(e.target.files));
+    e.target.value = '';  // 같은 파일을 다시 골라도 change가 발생하도록
+  };
+
+  const isImporting = status === 'rendering' || status === 'parsing' || status === 'images' ||
+      status === 'building';
+  const canImport = !isImporting && html.trim().length > 0 && selectedWidths(presetWidths, customWidths).length > 0;
 
   return (
       <div className="root">
@@ -165,26 +308,192 @@ export default function App() {
           <span className="header-title">HTML → Figma</span>
         </div>
 
-        {/* 렌더 너비 선택 */}
-        <div className="toolbar">
+        {/* 렌더 너비 선택 (여러 개 선택 시 나란히 배치) */}
+        <div className="width-picker">
           <span className="label">렌더 너비</span>
+          <div className="width-options">
+            {WIDTH_OPTIONS.map((o) => (
+                <label key={o.value} className="checkbox" title={o.label}>
+                  <input
+                      type="checkbox"
+                      checked={presetWidths.includes(o.value)}
+                      onChange={() => togglePresetWidth(o.value)}
+                      disabled={isImporting}
+                  />
+                  {o.value}
+                </label>
+            ))}
+          </div>
+          <input
+              className="mapping-input"
+              placeholder="직접 입력 (예: 390, 1024)"
+              value={customWidths}
+              onChange={(e) => setCustomWidths(e.target.value)}
+              disabled={isImporting}
+          />
+          {selectedWidths(presetWidths, customWidths).length > 1 && (
+              <label className="checkbox">
+                <input
+                    type="checkbox"
+                    checked={wrapInSection}
+                    onChange={(e) => setWrapInSection(e.target.checked)}
+                    disabled={isImporting}
+                />
+                섹션으로 묶기
+              </label>
+          )}
+        </div>
+
+        {/* 레이아웃 모드 선택 */}
+        <div className="toolbar">
+          <span className="label">레이아웃</span>
           <select
               className="select"
-              value={renderWidth}
-              onChange={(e) => setRenderWidth(Number(e.target.value))}
+              value={layoutMode}
+              onChange={(e) => setLayoutMode(e.target.value as LayoutMode)}
               disabled={isImporting}
           >
-            {WIDTH_OPTIONS.map((o) => (
+            {LAYOUT_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* 레이어 이름 규칙 */}
+        <div className="toolbar">
+          <span className="label">레이어 이름</span>
+          <select
+              className="select"
+              value={layerNaming}
+              onChange={(e) => setLayerNaming(e.target.value as LayerNaming)}
+              disabled={isImporting}
+          >
+            {NAMING_OPTIONS.map((o) => (
                 <option key={o.value} value={o.value}>{o.label}</option>
             ))}
           </select>
         </div>
 
-        {/* HTML 입력 */}
-        <div className="textarea-wrap">
+        {/* 선택한 기존 가져오기 프레임 업데이트 */}
+        <label className="checkbox" title="Figma에서 이전에 가져온 프레임을 선택한 뒤 실행하면 레이어를 유지한 채 변경분만 반영합니다">
+          <input
+              type="checkbox"
+              checked={updateSelection}
+              onChange={(e) => setUpdateSelection(e.target.checked)}
+              disabled={isImporting}
+          />
+          선택한 가져오기 프레임 업데이트 (주석·커넥터 유지)
+        </label>
+
+        {/* 로컬 스타일 / 변수 / 컴포넌트 생성 */}
+        <label className="checkbox">
+          <input
+              type="checkbox"
+              checked={createStyles}
+              onChange={(e) => setCreateStyles(e.target.checked)}
+              disabled={isImporting}
+          />
+          로컬 스타일 생성 (색상·텍스트·효과)
+        </label>
+        <label className="checkbox">
+          <input
+              type="checkbox"
+              checked={createVariables}
+              onChange={(e) => setCreateVariables(e.target.checked)}
+              disabled={isImporting}
+          />
+          Figma 변수 생성 (CSS 변수·Tailwind 테마)
+        </label>
+        <label className="checkbox">
+          <input
+              type="checkbox"
+              checked={createComponents}
+              onChange={(e) => setCreateComponents(e.target.checked)}
+              disabled={isImporting}
+          />
+          반복 요소를 컴포넌트로 (카드·목록 항목 등)
+        </label>
+        {createComponents && (
+            <div className="component-options">
+              <span className="label">최소 반복</span>
+              <input
+                  type="number"
+                  className="number-input"
+                  min={2}
+                  value={componentMinRepeat}
+                  onChange={(e) => setComponentMinRepeat(Math.max(Number(e.target.value) || 2, 2))}
+                  disabled={isImporting}
+              />
+              <span className="label">최소 레이어 수</span>
+              <input
+                  type="number"
+                  className="number-input"
+                  min={1}
+                  value={componentMinNodes}
+                  onChange={(e) => setComponentMinNodes(Math.max(Number(e.target.value) || 1, 1))}
+                  disabled={isImporting}
+              />
+            </div>
+        )}
+
+        {/* 폰트 매핑 (clientStorage 저장) */}
+        <FontMappingEditor disabled={isImporting}/>
+
+        {/* Figma 선택 → HTML 내보내기 */}
+        <HtmlExportPanel disabled={isImporting}/>
+
+        {/* 로컬 파일 열기 */}
+        <div className="toolbar">
+          <span className="label">파일</span>
+          <button className="small-btn" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+            HTML · zip 열기
+          </button>
+          <button className="small-btn" onClick={() => folderInputRef.current?.click()} disabled={isImporting}>
+            폴더 열기
+          </button>
+          {localSite && (
+              <span className="local-site" title={localSite.name}>
+                {localSite.name} · 파일 {localSite.fileCount}개
+              </span>
+          )}
+          <input ref={fileInputRef} type="file" multiple hidden onChange={handlePick}/>
+          <input
+              ref={(el) => {
+                folderInputRef.current = el;
+                el?.setAttribute('webkitdirectory', '');
+              }}
+              type="file"
+              hidden
+              onChange={handlePick}
+          />
+        </div>
+
+        {/* 로컬 사이트에서 찾지 못한 참조 */}
+        {localSite && localSite.missing.length > 0 && (
+            <div className="warning-box">
+              <strong>찾지 못한 파일 {localSite.missing.length}개</strong>
+              <ul className="warning-list">
+                {localSite.missing.map((path) => (
+                    <li key={path}>{path}</li>
+                ))}
+              </ul>
+            </div>
+        )}
+
+        {/* HTML 입력 (파일·폴더·zip을 끌어다 놓아도 됨) */}
+        <div
+            className={`textarea-wrap ${dragging ? 'dragging' : ''}`}
+            onDragOver={(e) => {
+              if (!hasFiles(e)) return;
+              e.preventDefault();
+              setDragging(true);
+            }}
+            onDragLeave={() => setDragging(false)}
+            onDrop={handleDrop}
+        >
         <textarea
             className="textarea"
-            placeholder={`전체 HTML 문서 또는 일부 fragment 모두 지원합니다.\n<style> 태그 포함 시 스타일도 적용됩니다.`}
+            placeholder={`전체 HTML 문서 또는 일부 fragment 모두 지원합니다.\n<style> 태그 포함 시 스타일도 적용됩니다.\n.html 파일, 사이트 폴더, .zip을 여기에 끌어다 놓을 수도 있습니다.`}
             value={html}
             onChange={(e) => setHtml(e.target.value)}
             disabled={isImporting}
@@ -201,7 +510,9 @@ export default function App() {
         {isImporting && (
             <div className="status-row">
               <div className="spinner"/>
-              <span className="status-text">{STATUS_LABEL[status]}</span>
+              <span className="status-text">
+                {STATUS_LABEL[status]}{currentWidth !== null && ` (${currentWidth}px)`}
+              </span>
             </div>
         )}
 
@@ -218,23 +529,72 @@ export default function App() {
               <span>✓ 완료</span>
               <span className="result-detail">
             Frame {result.frameCount}개 · Text {result.textCount}개
+            {result.update && ` · 갱신 ${result.update.updated} · 추가 ${result.update.added} · 제거 ${result.update.removed}`}
+            {result.componentCount > 0 && ` · 컴포넌트 ${result.componentCount}개 (인스턴스 ${result.instanceCount}개)`}
+            {result.styleCount > 0 && ` · 스타일 ${result.styleCount}개`}
           </span>
             </div>
         )}
 
+        {/* 변환 경고 (생략된 CSS 기능) */}
+        {status === 'done' && result && result.warnings.length > 0 && (
+            <div className="warning-box">
+              <strong>변환되지 않은 스타일 {result.warnings.length}건</strong>
+              <ul className="warning-list">
+                {result.warnings.map((w) => (
+                    <li key={w}>{w}</li>
+                ))}
+              </ul>
+            </div>
+        )}
+
+        {/* 폰트 대체 리포트 */}
+        {status === 'done' && result && result.fontSubstitutions.length > 0 && (
+            <div className="font-report">
+              <strong>대체된 폰트 {result.fontSubstitutions.length}건</strong>
+              <table className="font-report-table">
+                <thead>
+                <tr>
+                  <th>요청</th>
+                  <th>적용</th>
+                  <th>레이어</th>
+                  <th/>
+                </tr>
+                </thead>
+                <tbody>
+                {result.fontSubstitutions.map((f) => (
+                    <tr key={`${f.requested}→${f.loaded}`}>
+                      <td>{f.requested}</td>
+                      <td>{f.loaded}</td>
+                      <td className="count">{f.nodeIds.length}</td>
+                      <td>
+                        <button
+                            className="small-btn"
+                            onClick={() => selectLayers(f.nodeIds)}
+                        >
+                          선택
+                        </button>
+                      </td>
+                    </tr>
+                ))}
+                </tbody>
+              </table>
+            </div>
+        )}
+
         {/* 가져오기 버튼 */}
         <button
             className={`import-btn ${!canImport ? 'disabled' : ''}`}
             onClick={handleImport}
             disabled={!canImport}
         >
-          {isImporting ? '가져오는 중...' : 'Figma에 가져오기'}
+          {isImporting ? '가져오는 중...' : updateSelection ? '선택한 프레임 업데이트' : 'Figma에 가져오기'}
         </button>
 
         {/* 설명 */}
         <div className="hint">
           Chrome에서 렌더링한 것과 동일하게 Figma 레이어로 변환합니다.<br/>
-          외부 폰트/이미지는 Inter 폰트 및 회색 placeholder로 대체됩니다.
+          설치되지 않은 폰트는 폰트 매핑 또는 Inter로, 읽을 수 없는 이미지는 회색 placeholder로 대체됩니다.
         </div>
       </div>
   );
@@ -242,6 +602,21 @@ export default function App() {
 
 // ─── 헬퍼 함수 ────────────────────────────────────────────────
 
+/** 선택한 프리셋 + 직접 입력 너비 (중복 제거, 오름차순) */
+function selectedWidths(presets: number[], custom: string): number[] {
+  const widths = new Set(presets);
+  for (const token of custom.split(/[\s,]+/)) {
+    const w = Math.round(Number(token.replace(/px$/i, '')));
+    if (w >= MIN_CUSTOM_WIDTH && w <= MAX_CUSTOM_WIDTH) widths.add(w);
+  }
+  return Array.from(widths).sort((a, b) => a - b);
+}
+
+/** 프리셋 이름, 직접 입력 너비는 "Custom" */
+function widthLabel(width: number): string {
+  return WIDTH_OPTIONS.find((o) => o.value === width)?.label ?? 'Custom';
+}
+
 function waitFrames(n: number): Promise<void> {
   return new Promise<void>((res) => {
     let count = 0;
@@ -293,6 +668,30 @@ function applyBodyAttrsToContainer(html: string, container: HTMLDivElement): voi
   }
 }
 
+/**
+ * HTML의 <link rel="stylesheet">를 document.head에 추가하고 로드를 기다린다.
+ * extractBodyContent()가 <head>를 버리므로 외부·로컬 스타일시트도 여기서 살린다.
+ * 로드에 실패한 시트는 건너뛴다. 반환된 element 배열을 렌더링 후 반드시 제거할 것.
+ */
+async function injectStylesheetLinks(html: string): Promise<HTMLLinkElement[]> {
+  const links: HTMLLinkElement[] = [];
+  for (const tag of html.match(/<link\b[^>]*>/gi) ?? []) {
+    if (!/\brel\s*=\s*["']?[^"'>]*\bstylesheet\b/i.test(tag)) continue;
+    const href = tag.match(/\bhref\s*=\s*(["'])(.*?)\1/i)?.[2].replace(/&amp;/g, '&');
+    if (!href) continue;
+    const el = document.createElement('link');
+    el.rel = 'stylesheet';
+    el.href = href;
+    links.push(el);
+  }
+  await Promise.all(links.map((el) => new Promise<void>((resolve) => {
+    el.onload = () => resolve();
+    el.onerror = () => resolve();
+    document.head.appendChild(el);
+  })));
+  return links;
+}
+
 /**
  * HTML의 모든 <style> 태그 내용을 하나로 합쳐 document.head에 주입.
  * extractBodyContent()가 <head>를 버리기 때문에 커스텀 CSS가 사라지는
@@ -424,6 +823,9 @@ function applyDocumentBackground(domData: DomNodeData): void {
     for (const cs of sources) {
       if (cs.backgroundImage && cs.backgroundImage !== 'none') {
         domData.style.backgroundImage = cs.backgroundImage;
+        domData.style.backgroundSize = cs.backgroundSize;
+        domData.style.backgroundPosition = cs.backgroundPosition;
+        domData.style.backgroundRepeat = cs.backgroundRepeat;
         break;
       }
     }
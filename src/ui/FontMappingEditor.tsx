@@ -0,0 +1,93 @@
+import React, {useEffect, useState} from 'react';
+import type {FontMapping, MainToUIMessage} from '../types';
+
+/**
+ * CSS font-family → Figma 패밀리 매핑 편집기.
+ * 매핑은 메인 스레드가 figma.clientStorage에 저장하고, 가져오기 때마다 다시 읽는다.
+ * Figma 폰트 입력은 설치된 패밀리 목록(datalist)에서 자동완성.
+ */
+export default function FontMappingEditor({disabled}: { disabled: boolean }) {
+  const [mappings, setMappings] = useState<FontMapping[]>([]);
+  const [families, setFamilies] = useState<string[]>([]);
+  const [dirty, setDirty] = useState(false);
+
+  useEffect(() => {
+    const handler = (e: MessageEvent) => {
+      const msg = e.data?.pluginMessage as MainToUIMessage | undefined;
+      if (msg?.type !== 'font-settings') return;
+      setMappings(msg.mappings);
+      setFamilies(msg.families);
+      setDirty(false);
+    };
+    window.addEventListener('message', handler);
+    parent.postMessage({pluginMessage: {type: 'get-font-settings'}}, '*');
+    return () => window.removeEventListener('message', handler);
+  }, []);
+
+  const update = (index: number, patch: Partial<FontMapping>) => {
+    setMappings((prev) => prev.map((m, i) => (i === index ? {...m, ...patch} : m)));
+    setDirty(true);
+  };
+
+  const remove = (index: number) => {
+    setMappings((prev) => prev.filter((_, i) => i !== index));
+    setDirty(true);
+  };
+
+  const add = () => {
+    setMappings((prev) => [...prev, {css: '', figma: ''}]);
+    setDirty(true);
+  };
+
+  const save = () => {
+    const cleaned = mappings
+    .map((m) => ({css: m.css.trim(), figma: m.figma.trim()}))
+    .filter((m) => m.css && m.figma);
+    parent.postMessage({pluginMessage: {type: 'save-font-mappings', mappings: cleaned}}, '*');
+  };
+
+  const familySet = new Set(families);
+
+  return (
+      <details className="font-mapping">
+        <summary className="label">
+          폰트 매핑{mappings.length > 0 ? ` (${mappings.length})` : ''}
+        </summary>
+        <div className="mapping-list">
+          {mappings.map((m, i) => (
+              <div className="mapping-row" key={i}>
+                <input
+                    className="mapping-input"
+                    placeholder="CSS 폰트 (예: Brand Sans)"
+                    value={m.css}
+                    onChange={(e) => update(i, {css: e.target.value})}
+                    disabled={disabled}
+                />
+                <span className="mapping-arrow">→</span>
+                <input
+                    className={`mapping-input ${m.figma && families.length > 0 && !familySet.has(m.figma) ? 'missing' : ''}`}
+                    placeholder="Figma 폰트"
+                    list="figma-font-families"
+                    value={m.figma}
+                    onChange={(e) => update(i, {figma: e.target.value})}
+                    disabled={disabled}
+                    title={m.figma && !familySet.has(m.figma) ? 'Figma에 설치되지 않은 폰트' : undefined}
+                />
+                <button className="mapping-remove" onClick={() => remove(i)} disabled={disabled} title="삭제">
+                  ✕
+                </button>
+              </div>
+          ))}
+          <div className="mapping-actions">
+            <button className="small-btn" onClick={add} disabled={disabled}>+ 매핑 추가</button>
+            <button className="small-btn primary" onClick={save} disabled={disabled || !dirty}>저장</button>
+          </div>
+        </div>
+        <datalist id="figma-font-families">
+          {families.map((f) => (
+              <option key={f} value={f}/>
+          ))}
+        </datalist>
+      </details>
+  );
+}
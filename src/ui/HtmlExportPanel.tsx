@@ -0,0 +1,104 @@
+import React, {useEffect, useRef, useState} from 'react';
+import type {HtmlExportMode, MainToUIMessage} from '../types';
+
+/**
+ * Figma 선택 → HTML/CSS 내보내기.
+ * 변환은 메인 스레드가 하고, 결과 마크업을 읽기 전용 영역에 보여 주어 복사할 수 있게 한다.
+ */
+export default function HtmlExportPanel({disabled}: { disabled: boolean }) {
+  const [mode, setMode] = useState<HtmlExportMode>('inline');
+  const [exporting, setExporting] = useState(false);
+  const [html, setHtml] = useState('');
+  const [nodeCount, setNodeCount] = useState(0);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [error, setError] = useState('');
+  const [copied, setCopied] = useState(false);
+  const outputRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    const handler = (e: MessageEvent) => {
+      const msg = e.data?.pluginMessage as MainToUIMessage | undefined;
+      if (msg?.type === 'export-html-done') {
+        setHtml(msg.html);
+        setNodeCount(msg.nodeCount);
+        setWarnings(msg.warnings);
+        setExporting(false);
+      } else if (msg?.type === 'export-html-error') {
+        setError(msg.error);
+        setExporting(false);
+      }
+    };
+    window.addEventListener('message', handler);
+    return () => window.removeEventListener('message', handler);
+  }, []);
+
+  const run = () => {
+    setExporting(true);
+    setError('');
+    setHtml('');
+    setWarnings([]);
+    setCopied(false);
+    parent.postMessage({pluginMessage: {type: 'export-html', mode}}, '*');
+  };
+
+  const copy = () => {
+    const el = outputRef.current;
+    if (!el) return;
+    // 플러그인 iframe에는 Clipboard API 권한이 없어 선택 + execCommand로 복사
+    el.select();
+    setCopied(document.execCommand('copy'));
+  };
+
+  return (
+      <details className="html-export">
+        <summary className="label">HTML 내보내기</summary>
+        <div className="export-panel">
+          <div className="toolbar">
+            <select
+                className="select"
+                value={mode}
+                onChange={(e) => setMode(e.target.value as HtmlExportMode)}
+                disabled={disabled || exporting}
+            >
+              <option value="inline">인라인 스타일</option>
+              <option value="classes">클래스 + &lt;style&gt;</option>
+            </select>
+            <button className="small-btn primary" onClick={run} disabled={disabled || exporting}>
+              {exporting ? '내보내는 중...' : '선택 레이어 내보내기'}
+            </button>
+          </div>
+
+          {error && (
+              <div className="error-box">
+                <strong>오류:</strong> {error}
+              </div>
+          )}
+
+          {html && (
+              <>
+                <textarea
+                    ref={outputRef}
+                    className="textarea export-output"
+                    value={html}
+                    readOnly
+                    spellCheck={false}
+                />
+                <div className="export-actions">
+                  <span className="export-summary">
+                    레이어 {nodeCount}개{warnings.length > 0 && ` · 근사·생략 ${warnings.length}건`}
+                  </span>
+                  <button className="small-btn" onClick={copy}>{copied ? '복사됨' : '복사'}</button>
+                </div>
+                {warnings.length > 0 && (
+                    <ul className="warning-list export-warnings">
+                      {warnings.map((w) => (
+                          <li key={w}>{w}</li>
+                      ))}
+                    </ul>
+                )}
+              </>
+          )}
+        </div>
+      </details>
+  );
+}